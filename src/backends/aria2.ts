@@ -0,0 +1,55 @@
+// aria2c backend: multi-connection download of direct media URLs
+
+import path from "node:path"
+import { mkdir } from "node:fs/promises"
+import type { DownloadBackend, DownloadJob } from "./base.ts"
+import { resolveAria2Binary } from "../utils/binaries.ts"
+import { isHlsUrl } from "../utils/hls.ts"
+import { log, spawnLogged } from "../utils/log.ts"
+import { proxyUrl } from "../utils/http.ts"
+import { isSocksProxy } from "../utils/socks.ts"
+
+const CONNECTIONS = 4
+
+export class Aria2Backend implements DownloadBackend {
+  name = "aria2"
+
+  canHandle(url: string): boolean {
+    return !isHlsUrl(url)
+  }
+
+  async download(job: DownloadJob): Promise<void> {
+    const outDir = path.dirname(job.outputFile)
+    await mkdir(outDir, { recursive: true })
+    const bin = await resolveAria2Binary()
+    const args = [
+      bin,
+      "--continue=true",
+      `--max-connection-per-server=${CONNECTIONS}`,
+      `--split=${CONNECTIONS}`,
+      "--min-split-size=4M",
+      "--file-allocation=none",
+      "--auto-file-renaming=false",
+      "--console-log-level=warn",
+      "--summary-interval=10",
+      "-d",
+      outDir,
+      "-o",
+      path.basename(job.outputFile),
+    ]
+    for (const [name, value] of Object.entries(job.headers)) {
+      args.push(`--header=${name}: ${value}`)
+    }
+    const proxy = proxyUrl()
+    if (proxy && isSocksProxy(proxy)) {
+      throw new Error("aria2c does not support SOCKS proxies; use --backend http or ytdlp")
+    }
+    if (proxy) args.push(`--all-proxy=${proxy}`)
+    args.push(job.url)
+
+    const code = await spawnLogged(args, job.signal)
+    if (code !== 0) {
+      throw new Error(`${bin} exited with code ${code} for ${job.sourceUrl}`)
+    }
+  }
+}
@@ -0,0 +1,25 @@
+// Download backend interface for the tools that fetch a resolved stream
+
+// Reported by the backends that track progress themselves (http, hls)
+export interface DownloadProgress {
+  percent: number // 0-100, whole numbers
+  bytes?: number
+  totalBytes?: number
+  segments?: number // HLS segments on disk
+  totalSegments?: number
+}
+
+export interface DownloadJob {
+  url: string // Resolved stream URL (or the embed URL when no resolver matched)
+  sourceUrl: string // Original embed URL, for logging
+  outputFile: string
+  headers: Record<string, string> // Referer/Origin etc. the host expects
+  onProgress?: (progress: DownloadProgress) => void // Called at most once per percent
+  signal?: AbortSignal // Aborts the transfer (cancelled jobs in `serve`)
+}
+
+export interface DownloadBackend {
+  name: string
+  canHandle(url: string): boolean
+  download(job: DownloadJob): Promise<void>
+}
@@ -0,0 +1,17 @@
+// Native HLS backend (see utils/hls.ts)
+
+import type { DownloadBackend, DownloadJob } from "./base.ts"
+import { downloadHls, isHlsUrl } from "../utils/hls.ts"
+
+export class HlsBackend implements DownloadBackend {
+  name = "hls"
+
+  canHandle(url: string): boolean {
+    return isHlsUrl(url)
+  }
+
+  async download(job: DownloadJob): Promise<void> {
+    const { headers, onProgress, signal } = job
+    await downloadHls(job.url, job.outputFile, { headers, onProgress, signal })
+  }
+}
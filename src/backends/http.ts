@@ -0,0 +1,178 @@
+// Native HTTP backend: Range-resumable, multi-connection download of direct media URLs
+
+import path from "node:path"
+import { mkdir, open, rename, rm, stat } from "node:fs/promises"
+import type { DownloadBackend, DownloadJob } from "./base.ts"
+import { fetchResponse } from "../utils/http.ts"
+import { isHlsUrl } from "../utils/hls.ts"
+import { log } from "../utils/log.ts"
+
+const MAX_CONNECTIONS = 4
+const MIN_CHUNK_SIZE = 8 * 1024 * 1024
+
+interface ProbeResult {
+  size?: number
+  ranges: boolean
+}
+
+async function fileSize(filePath: string): Promise<number> {
+  try {
+    return (await stat(filePath)).size
+  } catch {
+    return 0
+  }
+}
+
+// What the part files on disk were downloaded from; parts of another stream must not be resumed
+interface PartsState {
+  url: string // Without the query string, which usually carries a token that changes per resolution
+  size?: number
+  connections: number
+}
+
+function partsStateFile(outputFile: string): string {
+  return `${outputFile}.parts.json`
+}
+
+// Keep the part files only when they come from the same URL with the same size and layout
+async function preparePartFiles(outputFile: string, state: PartsState): Promise<void> {
+  const stateFile = Bun.file(partsStateFile(outputFile))
+  const previous = (await stateFile.exists()) ? ((await stateFile.json().catch(() => null)) as PartsState | null) : null
+  const same =
+    previous?.url === state.url && previous.size === state.size && previous.connections === state.connections
+  if (!same) {
+    const count = Math.max(MAX_CONNECTIONS, previous?.connections ?? 0)
+    let removed = 0
+    for (const file of Array.from({ length: count }, (_, i) => `${outputFile}.part${i}`)) {
+      if ((await fileSize(file)) > 0) removed += 1
+      await rm(file, { force: true })
+    }
+    if (removed > 0) log.info("Discarding partial HTTP download of another stream")
+  }
+  await Bun.write(stateFile, JSON.stringify(state))
+}
+
+// Ask for the first byte: a 206 with Content-Range tells us both the size and Range support
+async function probe(url: string, headers: Record<string, string>): Promise<ProbeResult> {
+  const res = await fetchResponse(url, { ...headers, range: "bytes=0-0" })
+  await res.body?.cancel().catch(() => {})
+
+  const contentType = res.headers.get("content-type") ?? ""
+  if (contentType.includes("text/html")) {
+    throw new Error(`Expected media but got an HTML page for ${url}`)
+  }
+
+  const total = res.headers.get("content-range")?.match(/\/(\d+)$/)?.[1]
+  if (res.status === 206 && total) return { size: Number(total), ranges: true }
+
+  const length = Number(res.headers.get("content-length"))
+  return { size: Number.isFinite(length) && length > 0 ? length : undefined, ranges: false }
+}
+
+// Append [start + already written, end] to partFile; resumes from whatever the file already holds
+async function fetchRange(
+  url: string,
+  headers: Record<string, string>,
+  partFile: string,
+  start: number,
+  end: number | undefined,
+  onBytes: (n: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const have = await fileSize(partFile)
+  if (end !== undefined && start + have > end) return
+
+  const rangeHeaders = end === undefined && have === 0 ? headers : { ...headers, range: `bytes=${start + have}-${end ?? ""}` }
+  const res = await fetchResponse(url, rangeHeaders)
+  if (have > 0 && res.status !== 206) {
+    await res.body?.cancel().catch(() => {})
+    throw new Error(`Server ignored Range request for ${url}`)
+  }
+  if (!res.body) throw new Error(`Empty response body for ${url}`)
+
+  const handle = await open(partFile, "a")
+  try {
+    for await (const chunk of res.body) {
+      signal?.throwIfAborted()
+      await handle.write(chunk)
+      onBytes(chunk.byteLength)
+    }
+  } finally {
+    await handle.close()
+  }
+}
+
+export class HttpBackend implements DownloadBackend {
+  name = "http"
+
+  canHandle(url: string): boolean {
+    return !isHlsUrl(url)
+  }
+
+  async download(job: DownloadJob): Promise<void> {
+    const { url, headers, outputFile } = job
+    await mkdir(path.dirname(outputFile), { recursive: true })
+    const { size, ranges } = await probe(url, headers)
+
+    const connections = ranges && size ? Math.max(1, Math.min(MAX_CONNECTIONS, Math.ceil(size / MIN_CHUNK_SIZE))) : 1
+    const chunkSize = size ? Math.ceil(size / connections) : 0
+    const parts = Array.from({ length: connections }, (_, i) => ({
+      file: `${outputFile}.part${i}`,
+      start: i * chunkSize,
+      end: size ? Math.min(size, (i + 1) * chunkSize) - 1 : undefined,
+    }))
+    const { origin, pathname } = new URL(url)
+    await preparePartFiles(outputFile, { url: `${origin}${pathname}`, size, connections })
+
+    // Without Range support a previous partial file cannot be continued
+    if (!ranges) await rm(parts[0]!.file, { force: true })
+
+    let received = 0
+    for (const part of parts) received += await fileSize(part.file)
+    if (received > 0) log.info(`Resuming HTTP download at ${received} byte(s)`)
+
+    let lastReported = -1
+    let lastPercent = -1
+    const onBytes = (n: number) => {
+      received += n
+      if (!size) return
+      const percent = Math.floor((received / size) * 100)
+      if (percent > lastPercent) {
+        lastPercent = percent
+        job.onProgress?.({ percent, bytes: received, totalBytes: size })
+      }
+      const step = Math.floor(percent / 10) * 10
+      if (step > lastReported) {
+        lastReported = step
+        log.info(`HTTP ${Math.round(received / 1024 / 1024)}/${Math.round(size / 1024 / 1024)} MiB (${step}%)`)
+      }
+    }
+
+    await Promise.all(parts.map((part) => fetchRange(url, headers, part.file, part.start, part.end, onBytes, job.signal)))
+
+    let written = 0
+    for (const part of parts) written += await fileSize(part.file)
+    if (size && written !== size) {
+      throw new Error(`Incomplete download for ${job.sourceUrl}: ${written}/${size} bytes`)
+    }
+
+    // Single connection: the part is the file. Otherwise stitch the chunks together, streaming
+    // each one so memory stays flat whatever the file size.
+    if (parts.length === 1) {
+      await rename(parts[0]!.file, outputFile)
+    } else {
+      const tmpFile = `${outputFile}.part`
+      const writer = Bun.file(tmpFile).writer()
+      for (const part of parts) {
+        for await (const chunk of Bun.file(part.file).stream()) {
+          writer.write(chunk)
+          await writer.flush()
+        }
+      }
+      await writer.end()
+      await rename(tmpFile, outputFile)
+      await Promise.all(parts.map((part) => rm(part.file, { force: true })))
+    }
+    await rm(partsStateFile(outputFile), { force: true })
+  }
+}
@@ -0,0 +1,50 @@
+// Download backend registry
+
+import type { DownloadBackend } from "./base.ts"
+import { YtDlpBackend } from "./ytdlp.ts"
+import { HttpBackend } from "./http.ts"
+import { Aria2Backend } from "./aria2.ts"
+import { HlsBackend } from "./hls.ts"
+import { isHlsUrl } from "../utils/hls.ts"
+
+export type { DownloadBackend, DownloadJob } from "./base.ts"
+
+const ytdlp = new YtDlpBackend()
+const http = new HttpBackend()
+const aria2 = new Aria2Backend()
+const hls = new HlsBackend()
+
+export const backends: Record<string, DownloadBackend> = {
+  ytdlp,
+  "yt-dlp": ytdlp, // alias
+  http,
+  aria2,
+  aria2c: aria2, // alias
+  hls,
+}
+
+export function listBackends(): string[] {
+  return ["auto", ...Object.keys(backends).filter((k) => k !== "yt-dlp" && k !== "aria2c")]
+}
+
+export function isBackendName(name: string): boolean {
+  return name === "auto" || name in backends
+}
+
+function isDirectMediaUrl(url: string): boolean {
+  return /\.(?:mp4|m4v|mkv|webm|avi|mov)(?:\?|$)/i.test(url)
+}
+
+// Pick the backend for a resolved URL. "auto": HLS playlists use the native HLS
+// downloader, direct media files the native HTTP downloader, anything else yt-dlp.
+export function pickBackend(url: string, requested = "auto"): DownloadBackend {
+  if (requested !== "auto") {
+    const backend = backends[requested]
+    if (!backend) throw new Error(`Unknown backend: ${requested} (available: ${listBackends().join(", ")})`)
+    if (!backend.canHandle(url)) throw new Error(`Backend ${backend.name} cannot download ${url}`)
+    return backend
+  }
+  if (isHlsUrl(url)) return hls
+  if (isDirectMediaUrl(url)) return http
+  return ytdlp
+}
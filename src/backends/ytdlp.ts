@@ -0,0 +1,78 @@
+// yt-dlp backend: handles anything, including embed pages no resolver understands
+
+import path from "node:path"
+import { mkdir } from "node:fs/promises"
+import type { DownloadBackend, DownloadJob } from "./base.ts"
+import { resolveFfmpegBinary, resolveYtDlpBinary } from "../utils/binaries.ts"
+import { configuredBinary } from "../utils/config.ts"
+import { isHlsUrl } from "../utils/hls.ts"
+import { currentLogPrefix, spawnLogged } from "../utils/log.ts"
+import { proxyUrl } from "../utils/http.ts"
+import { isJsonOutput } from "../utils/output.ts"
+
+// Plugin directory (local to repo; override with YTDLP_PLUGIN_DIRS or binaries.ytdlpPluginDirs)
+const REPO_PLUGIN_DIR = path.join(process.cwd(), "plugins", "xfileshare")
+
+function getPluginDirsFlag(): string[] {
+  const configured = configuredBinary("ytdlpPluginDirs")
+  if (configured) return ["--plugin-dirs", configured]
+  return ["--plugin-dirs", REPO_PLUGIN_DIR]
+}
+
+export async function runYtDlp(
+  url: string,
+  outputFile: string,
+  opts?: { headers?: Record<string, string>; noOverwrite?: boolean; noContinue?: boolean; signal?: AbortSignal }
+): Promise<void> {
+  const outDir = path.dirname(outputFile)
+  await mkdir(outDir, { recursive: true })
+  const bin = await resolveYtDlpBinary()
+  const args = [
+    bin,
+    ...getPluginDirsFlag(),
+    "-o",
+    outputFile,
+    "--merge-output-format",
+    "mp4",
+  ]
+
+  for (const [name, value] of Object.entries(opts?.headers ?? {})) {
+    args.push("--add-header", `${name}:${value}`)
+  }
+
+  // yt-dlp speaks HTTP and SOCKS proxies natively
+  const proxy = proxyUrl()
+  if (proxy) args.push("--proxy", proxy)
+
+  const ffmpeg = await resolveFfmpegBinary()
+  if (ffmpeg) {
+    args.push("--ffmpeg-location", ffmpeg)
+  }
+  if (isHlsUrl(url)) {
+    args.push("--downloader", "ffmpeg", "--hls-use-mpegts", "--remux-video", "mp4")
+  }
+
+  args.push(url)
+  if (opts?.noOverwrite) args.splice(3, 0, "--no-overwrites")
+  if (opts?.noContinue) args.push("--no-continue")
+  // Progress bars are unreadable when several downloads share the terminal or logs are piped
+  if (currentLogPrefix() || isJsonOutput()) args.push("--no-progress")
+  args.push("--no-part", "--restrict-filenames")
+
+  const code = await spawnLogged(args, opts?.signal)
+  if (code !== 0) {
+    throw new Error(`${bin} exited with code ${code} for ${url}`)
+  }
+}
+
+export class YtDlpBackend implements DownloadBackend {
+  name = "ytdlp"
+
+  canHandle(_url: string): boolean {
+    return true
+  }
+
+  async download(job: DownloadJob): Promise<void> {
+    await runYtDlp(job.url, job.outputFile, { headers: job.headers, noOverwrite: true, noContinue: true, signal: job.signal })
+  }
+}
@@ -0,0 +1,61 @@
+// Cache command handler: inspect or clear the on-disk HTTP response cache
+
+import path from "node:path"
+import { defineCommand, getSubcommand, parseOptions, UsageError } from "../utils/args.ts"
+import { cacheStats, clearCache } from "../utils/cache.ts"
+import { cacheDir } from "../utils/paths.ts"
+import { isJsonOutput, printJson } from "../utils/output.ts"
+
+export const cacheInfoCommand = defineCommand({
+  command: "cache info",
+  summary: "Show where the HTTP response cache lives and how big it is (the default cache action)",
+  options: {},
+})
+
+export const cacheClearCommand = defineCommand({
+  command: "cache clear",
+  summary: "Remove cached HTTP responses",
+  options: { expired: { type: "boolean", description: "Only remove entries past their expiry" } },
+})
+
+// --json
+export interface CacheInfoOutput {
+  location: string
+  entries: number
+  expired: number
+  bytes: number
+}
+
+export interface CacheClearOutput {
+  removed: number
+}
+
+export async function cmdCache(argsv: string[]): Promise<void> {
+  const { action, rest } = getSubcommand(argsv, "info")
+
+  switch (action) {
+    case "info": {
+      parseOptions(cacheInfoCommand, rest)
+      const stats = await cacheStats()
+      const location = path.join(cacheDir(), "http")
+      if (isJsonOutput()) {
+        printJson({ location, ...stats } satisfies CacheInfoOutput)
+        break
+      }
+      console.log(`Location: ${location}`)
+      console.log(`Entries:  ${stats.entries} (${stats.expired} expired)`)
+      console.log(`Size:     ${(stats.bytes / 1024 / 1024).toFixed(1)} MiB`)
+      break
+    }
+    case "clear": {
+      // --expired: only drop stale entries
+      const opts = parseOptions(cacheClearCommand, rest)
+      const removed = await clearCache(opts.expired === true)
+      if (isJsonOutput()) printJson({ removed } satisfies CacheClearOutput)
+      else console.log(`Removed ${removed} cache entr${removed === 1 ? "y" : "ies"}.`)
+      break
+    }
+    default:
+      throw new UsageError(`cache: unknown action ${action} (expected info or clear)`, "cache")
+  }
+}
@@ -0,0 +1,65 @@
+// Config command handler: print the effective settings and where each one comes from
+
+import { defineCommand, getSubcommand, parseOptions, UsageError } from "../utils/args.ts"
+import { currentConfig, projectConfigPath, userConfigPath, type Setting } from "../utils/config.ts"
+import { isJsonOutput, printJson } from "../utils/output.ts"
+import { LANG, OUT_DIR } from "./options.ts"
+import { RUN_JOB_OPTIONS } from "../utils/jobs.ts"
+
+export const configShowCommand = defineCommand({
+  command: "config show",
+  summary: "Print the effective settings and where each one comes from (flags given here are included)",
+  options: { outDir: OUT_DIR, lang: LANG, retries: RUN_JOB_OPTIONS.retries },
+  examples: ["config show --profile anime"],
+})
+
+// --json
+export interface ConfigShowOutput {
+  files: string[] // Loaded config files, lowest precedence first
+  profile?: string
+  settings: Record<string, Setting>
+  mirrors: Record<string, string[]>
+}
+
+export async function cmdConfig(argsv: string[]): Promise<void> {
+  const { action, rest } = getSubcommand(argsv, "show")
+
+  switch (action) {
+    case "show": {
+      const config = currentConfig()
+      // Without config defaults, only what was typed on the command line is left
+      const flags: Record<string, unknown> = parseOptions(configShowCommand, rest, { defaults: false })
+      // Flags given with `config show` are reported the way a real command would see them
+      const settings: Record<string, Setting> = {}
+      for (const [key, setting] of config.settings) {
+        const flag = flags[key]
+        settings[key] = flag !== undefined ? { value: String(flag), source: `--${key}` } : setting
+      }
+
+      if (isJsonOutput()) {
+        const { files, profile, mirrors } = config
+        printJson({ files, profile, settings, mirrors } satisfies ConfigShowOutput)
+        break
+      }
+
+      console.log(`Config files (later ones win): ${userConfigPath()}, ${projectConfigPath()}`)
+      console.log(`Loaded: ${config.files.length > 0 ? config.files.join(", ") : "none"}`)
+      if (config.profile) console.log(`Profile: ${config.profile}`)
+      console.log("")
+
+      const width = Math.max(...Object.keys(settings).map((k) => k.length))
+      for (const [key, { value, source }] of Object.entries(settings)) {
+        console.log(`${key.padEnd(width)}  ${value}  (${source})`)
+      }
+
+      const mirrors = Object.entries(config.mirrors)
+      if (mirrors.length > 0) {
+        console.log("")
+        for (const [provider, urls] of mirrors) console.log(`mirrors.${provider}  ${urls.join(", ")}`)
+      }
+      break
+    }
+    default:
+      throw new UsageError(`config: unknown action ${action} (expected show)`, "config")
+  }
+}
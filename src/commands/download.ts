@@ -2,91 +2,157 @@
 
 import path from "node:path"
 import type { Provider } from "../providers/index.ts"
-import type { Episode } from "../types.ts"
-import { parseArgs, ensureString, ensureNumber, splitCsvNumbers } from "../utils/args.ts"
-import { downloadWithRetries, buildOutputPath, ensureDirForFile } from "../utils/download.ts"
-
-export async function cmdDownload(provider: Provider, argsv: string[]): Promise<void> {
-  const args = parseArgs(argsv)
-  const query = args.query as string | undefined
-  const titleId = args.titleId as string | undefined
-  const numericId = ensureNumber(args.titleId)
-  const limit = ensureNumber(args.limit) ?? 20
-  const onlySeason = ensureNumber(args.season)
-  const onlyEpisodes = splitCsvNumbers(args.episode)
-  const maxDownloads = ensureNumber(args.max)
-  const outDir = ensureString(args.outDir as string | boolean | undefined, path.join(process.cwd(), "downloads"))
-
-  let resolvedId: string | number | undefined = numericId ?? titleId
+import { ALL_PROVIDERS, formatMatches, pickProvider, searchAll } from "../providers/all.ts"
+import type { Episode, Title, TitleDetails } from "../types.ts"
+import { defineCommand, formatRanges, parseOptions, UsageError } from "../utils/args.ts"
+import { JobManifest } from "../utils/manifest.ts"
+import { buildJobRecords, parseRunJobsOptions, printFailureSummary, RUN_JOB_OPTIONS, runJobs } from "../utils/jobs.ts"
+import { parseLanguageList } from "../utils/language.ts"
+import { writeMetadata } from "../utils/nfo.ts"
+import { checkTemplate, PRESETS, resolveTemplate } from "../utils/naming.ts"
+import { isInteractive, selectMany, selectOne, type Choice } from "../utils/prompt.ts"
+import { log } from "../utils/log.ts"
+import { LANG, OUT_DIR, QUERY, TITLE_ID, titleIdValue } from "./options.ts"
+
+export const downloadCommand = defineCommand({
+  command: "download",
+  summary: "Download a series or movie (the default command when none is given)",
+  options: {
+    query: { ...QUERY, description: "Search text; the first series result is used (or picked in a terminal)" },
+    titleId: TITLE_ID,
+    limit: { type: "integer", placeholder: "N", min: 1, default: "20", description: "Search results to consider" },
+    season: { type: "range", alias: "s", placeholder: "1-3", description: "Seasons to download" },
+    episode: { type: "range", alias: "e", placeholder: "1-5,8", description: "Episode numbers to download" },
+    max: { type: "integer", alias: "m", placeholder: "N", min: 1, description: "Download at most N videos" },
+    outDir: OUT_DIR,
+    lang: LANG,
+    multiLang: { type: "boolean", description: "One file per wanted language instead of the best one" },
+    template: {
+      type: "string",
+      placeholder: `${Object.keys(PRESETS).join("|")}|pattern`,
+      default: "jellyfin",
+      description: "Output naming preset or pattern",
+      validate: (v: string) => checkTemplate(v),
+    },
+    movieTemplate: {
+      type: "string",
+      placeholder: "pattern",
+      description: "Output naming pattern for movies",
+      validate: (v: string) => checkTemplate(v, true),
+    },
+    noMetadata: { type: "boolean", description: "Do not write .nfo files and artwork" },
+    noInteractive: { type: "boolean", description: "Never prompt, even in a terminal" },
+    ...RUN_JOB_OPTIONS,
+  },
+  examples: [
+    "download -q psych -s 1 -e 1-5,8",
+    "download --provider fs --query \"loups garous\" --season 2 --max 1",
+    "download --titleId 3235 --lang vostfr,vf --quality \"<=720p\" --concurrency 4",
+  ],
+})
+
+export async function cmdDownload(providerChoice: Provider | typeof ALL_PROVIDERS, argsv: string[]): Promise<void> {
+  const opts = parseOptions(downloadCommand, argsv)
+  const query = opts.query
+  const limit = opts.limit ?? 20
+  const onlySeasons = opts.season
+  const onlyEpisodes = opts.episode
+  const maxDownloads = opts.max
+  const outDir = opts.outDir ?? path.join(process.cwd(), "downloads")
+  const languages = parseLanguageList(opts.lang)
+  const multiLang = opts.multiLang === true
+  const runOpts = parseRunJobsOptions(opts)
+  const template = resolveTemplate(opts.template, opts.movieTemplate)
+  // Pickers only show up in a terminal; piped and scheduled runs keep the automatic choices
+  const interactive = isInteractive() && opts.noInteractive !== true
+
+  let provider: Provider
+  let resolvedId: string | number | undefined = titleIdValue(opts.titleId)
   let showName: string | undefined
+  let details: TitleDetails | undefined
+
+  if (providerChoice === ALL_PROVIDERS) {
+    // Ids are provider-specific, so every provider is searched and the best one is kept
+    if (!query) throw new UsageError("download: --provider all needs --query", "download")
+    const results = await searchAll(query, limit)
+    let preferred = results.find((r) => r.type === "series") ?? results[0]
+    if (!preferred) throw new Error(`No results for query: ${query}`)
+    if (interactive && results.length > 1) {
+      preferred = await pickTitle(results, preferred, formatMatches)
+    }
+    log.info(`Using result: ${titleLabel(preferred)} (${formatMatches(preferred)})`)
+    const best = await pickProvider(preferred, { languages, seasons: onlySeasons })
+    provider = best.provider
+    details = best.details
+    resolvedId = preferred.matches.find((m) => m.provider === provider)!.title.id
+    showName = preferred.name
+    log.info(`Downloading from ${provider.name} (id=${resolvedId})`)
+  } else {
+    provider = providerChoice
+  }
 
   // If no titleId, search for it
   if (!resolvedId) {
-    if (!query) {
-      console.error("download: provide --query or --titleId")
-      process.exit(1)
-    }
+    if (!query) throw new UsageError("download: provide --query or --titleId", "download")
     const results = await provider.search(query, limit)
-    if (results.length === 0) {
-      console.error(`No results for query: ${query}`)
-      process.exit(1)
-    }
+    if (results.length === 0) throw new Error(`No results for query: ${query}`)
     // Prefer series if available
-    const preferred = results.find((r) => r.type === "series") ?? results[0]
-    if (!preferred) {
-      console.error("No suitable results returned by API.")
-      process.exit(1)
+    let preferred = results.find((r) => r.type === "series") ?? results[0]
+    if (!preferred) throw new Error("No suitable results returned by API.")
+    if (interactive && results.length > 1) {
+      preferred = await pickTitle(results, preferred)
     }
     resolvedId = preferred.id
     showName = preferred.name
-    console.log(`Using result: ${preferred.name} (id=${preferred.id})`)
+    log.info(`Using result: ${preferred.name} (id=${preferred.id})`)
   }
 
   // Get title details
-  const details = await provider.getDetails(resolvedId)
+  details ??= await provider.getDetails(resolvedId)
   showName = showName ?? details.name
   const episodes = details.episodes
 
-  if (episodes.length === 0) {
-    console.error("No downloadable episodes found for title.")
-    process.exit(1)
-  }
+  if (episodes.length === 0) throw new Error("No downloadable episodes found for title.")
 
-  // Filter episodes
-  let filtered = filterEpisodes(episodes, { season: onlySeason, episodes: onlyEpisodes })
-  if (filtered.length === 0) filtered = episodes
+  // Filter episodes; a selection that matches nothing is a mistake, not a request for everything
+  let filtered = filterEpisodes(episodes, { seasons: onlySeasons, episodes: onlyEpisodes })
+  if (filtered.length === 0) {
+    const selection = describeSelection(onlySeasons, onlyEpisodes)
+    throw new Error(`No episodes match ${selection}. Available: ${describeAvailable(episodes)}`)
+  }
+  if (interactive && !onlySeasons && !onlyEpisodes) {
+    filtered = await pickEpisodes(filtered)
+  }
   if (typeof maxDownloads === "number") filtered = filtered.slice(0, maxDownloads)
 
-  console.log(`Queued ${filtered.length} video(s) from ${showName}`)
+  log.info(`Queued ${filtered.length} video(s) from ${showName}`)
 
-  const failures: Array<{ name: string; url: string; error: string }> = []
+  const manifest = await JobManifest.load(outDir)
+  const title = { id: resolvedId, name: showName, year: details.year }
+  const records = buildJobRecords(provider.name, title, filtered, outDir, { languages, multiLang, template })
+  const failures = await runJobs(manifest, records, runOpts)
 
-  for (const ep of filtered) {
-    const outputPath = buildOutputPath(outDir, showName!, ep.season, ep.episode, "mp4")
-    await ensureDirForFile(outputPath)
-    console.log(`Downloading: ${ep.name} -> ${outputPath}`)
-    const ok = await downloadWithRetries(ep.url, outputPath, 3)
-    if (!ok) {
-      failures.push({ name: ep.name, url: ep.url, error: "download failed after retries" })
+  if (opts.noMetadata !== true) {
+    const done = records.filter((r) => manifest.get(r.key)?.status === "done")
+    // Metadata is optional; the failure summary is what tells the user which downloads to retry
+    try {
+      await writeMetadata(details, provider.name, done, template)
+    } catch (err) {
+      log.warn(`Could not write metadata: ${err instanceof Error ? err.message : String(err)}`)
     }
   }
-
-  if (failures.length > 0) {
-    console.warn(`Completed with ${failures.length} failure(s):`)
-    for (const f of failures) console.warn(`- ${f.name} :: ${f.url} :: ${f.error}`)
-  } else {
-    console.log("All downloads completed.")
-  }
+  printFailureSummary(failures)
 }
 
-function filterEpisodes(
+export function filterEpisodes(
   episodes: Episode[],
-  opts: { season?: number; episodes?: number[] }
+  opts: { seasons?: number[]; episodes?: number[] }
 ): Episode[] {
   let filtered = episodes
 
-  if (opts.season) {
-    filtered = filtered.filter((ep) => ep.season === opts.season)
+  if (opts.seasons && opts.seasons.length > 0) {
+    const set = new Set(opts.seasons)
+    filtered = filtered.filter((ep) => ep.season !== undefined && set.has(ep.season))
   }
 
   if (opts.episodes && opts.episodes.length > 0) {
@@ -96,3 +162,61 @@ function filterEpisodes(
 
   return filtered
 }
+
+export function describeSelection(seasons?: number[], episodes?: number[]): string {
+  const parts = [seasons ? `--season ${formatRanges(seasons)}` : "", episodes ? `--episode ${formatRanges(episodes)}` : ""]
+  return parts.filter(Boolean).join(" ")
+}
+
+// "season 1 (episodes 1-10), season 2 (episodes 1-8)"
+export function describeAvailable(episodes: Episode[]): string {
+  const bySeason = new Map<number, number[]>()
+  for (const ep of episodes) {
+    if (ep.season === undefined || ep.episode === undefined) continue
+    bySeason.set(ep.season, [...(bySeason.get(ep.season) ?? []), ep.episode])
+  }
+  if (bySeason.size === 0) return `${episodes.length} video(s) without season/episode numbers`
+  return [...bySeason.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([season, numbers]) => `season ${season} (episodes ${formatRanges(numbers)})`)
+    .join(", ")
+}
+
+function titleLabel(title: Title): string {
+  return title.year ? `${title.name} (${title.year})` : title.name
+}
+
+async function pickTitle<T extends Title>(results: T[], preferred: T, describe?: (title: T) => string): Promise<T> {
+  const choices: Choice<T>[] = results.map((r) => ({
+    label: titleLabel(r),
+    value: r,
+    hint: `${r.type} · ${describe ? describe(r) : `id=${r.id}`}`,
+  }))
+  return selectOne("Pick a title:", choices, results.indexOf(preferred))
+}
+
+// Seasons first (when there are several), then the episodes of the chosen seasons.
+// Everything starts selected, so Enter twice queues the same thing as a non-interactive run.
+async function pickEpisodes(episodes: Episode[]): Promise<Episode[]> {
+  if (episodes.length <= 1) return episodes
+
+  const seasons = [...new Set(episodes.map((ep) => ep.season ?? 0))].sort((a, b) => a - b)
+  let wanted = episodes
+  if (seasons.length > 1) {
+    const choices = seasons.map((season) => {
+      const count = episodes.filter((ep) => (ep.season ?? 0) === season).length
+      return { label: season ? `Season ${season}` : "Other", value: season, hint: `${count} episode(s)` }
+    })
+    const picked = new Set(await selectMany("Pick seasons:", choices))
+    wanted = episodes.filter((ep) => picked.has(ep.season ?? 0))
+  }
+
+  const choices = wanted.map((ep) => {
+    const se = ep.season && ep.episode
+      ? `S${String(ep.season).padStart(2, "0")}E${String(ep.episode).padStart(2, "0")}`
+      : ep.name
+    const langs = [...new Set(ep.sources.map((s) => s.language).filter(Boolean))].join(",")
+    return { label: ep.title ? `${se} ${ep.title}` : se, value: ep, hint: langs || undefined }
+  })
+  return selectMany("Pick episodes:", choices)
+}
@@ -0,0 +1,126 @@
+// Help command handler: the command overview and per-command help generated from the option schemas
+
+import {
+  defineCommand,
+  formatCommandHelp,
+  formatOptions,
+  getGlobalOptions,
+  UsageError,
+  type CommandSchema,
+} from "../utils/args.ts"
+import { PROJECT_CONFIG_FILE } from "../utils/config.ts"
+import { searchCommand } from "./search.ts"
+import { infoCommand } from "./info.ts"
+import { listCommand } from "./list.ts"
+import { downloadCommand } from "./download.ts"
+import { jobsListCommand, jobsRetryCommand } from "./jobs.ts"
+import { watchAddCommand, watchListCommand, watchRemoveCommand, watchRunCommand } from "./watch.ts"
+import { cacheClearCommand, cacheInfoCommand } from "./cache.ts"
+import { mirrorsCheckCommand, mirrorsListCommand, mirrorsResetCommand } from "./mirrors.ts"
+import { configShowCommand } from "./config.ts"
+import { serveCommand } from "./serve.ts"
+import { playCommand, streamCommand } from "./play.ts"
+import { verifyCommand } from "./verify.ts"
+
+const PROGRAM = "bun run index.ts"
+
+export const helpCommand = defineCommand({
+  command: "help",
+  summary: "Show this overview, or the options of one command",
+  usage: "[command] [action]",
+  options: {},
+  examples: ["help download", "help jobs retry"],
+})
+
+// Every command and action, in the order the overview lists them
+export const COMMANDS: CommandSchema[] = [
+  searchCommand,
+  infoCommand,
+  listCommand,
+  downloadCommand,
+  jobsListCommand,
+  jobsRetryCommand,
+  watchAddCommand,
+  watchRemoveCommand,
+  watchListCommand,
+  watchRunCommand,
+  cacheInfoCommand,
+  cacheClearCommand,
+  mirrorsListCommand,
+  mirrorsCheckCommand,
+  mirrorsResetCommand,
+  configShowCommand,
+  serveCommand,
+  playCommand,
+  streamCommand,
+  verifyCommand,
+  helpCommand,
+]
+
+export function commandNames(): string[] {
+  return [...new Set(COMMANDS.map((c) => c.command.split(" ")[0]!))]
+}
+
+export function printHelp(): void {
+  const width = Math.max(...COMMANDS.map((c) => c.command.length))
+  console.log(
+    [
+      "Usage:",
+      `  ${PROGRAM} <command> [action] [options]`,
+      `  ${PROGRAM} help <command>    Options of one command`,
+      "",
+      "Commands:",
+      ...COMMANDS.map((c) => `  ${c.command.padEnd(width)}  ${c.summary}`),
+      "",
+      "Global options (every command):",
+      ...formatOptions(getGlobalOptions()),
+      "",
+      "Options take --key value, --key=value or a short alias (-q psych). --season and --episode",
+      "accept ranges such as 1-5,8.",
+      "",
+      "--json prints one JSON document per command (NDJSON events for download, jobs retry and",
+      "  watch run) on stdout; logs go to stderr.",
+      "",
+      `Config: ~/.config/yopflix-downloader/config.json and ./${PROJECT_CONFIG_FILE} set defaults for`,
+      "  --provider, --outDir, --lang and --retries, binary paths, mirrors and named profiles.",
+      "",
+      "Mirrors: set FRENCHSTREAM_MIRRORS / YOPFLIX_MIRRORS (comma-separated) or list them in",
+      "  the config's \"mirrors\" section; the first healthy one is used and remembered.",
+      "",
+      "Examples:",
+      "  # Search with default provider (yopflix)",
+      `  ${PROGRAM} search --query psych`,
+      "",
+      "  # Search with French Stream provider",
+      `  ${PROGRAM} search --provider frenchstream --query "loups garous"`,
+      "",
+      "  # List episodes from French Stream (using path-based ID)",
+      `  ${PROGRAM} list --provider fs --titleId "/s-tv/15123579-loups-garous-saison-2-2024.html"`,
+      "",
+      "  # Search every provider at once",
+      `  ${PROGRAM} search --provider all --query psych`,
+      "",
+      "  # Download episodes 1 to 5 and 8 of season 2 from French Stream",
+      `  ${PROGRAM} download -p fs -q "loups garous" -s 2 -e 1-5,8`,
+      "",
+      "If no command is provided, 'download' is assumed.",
+    ].join("\n")
+  )
+}
+
+// `help jobs` shows every jobs action, `help jobs retry` only that one
+export function printCommandHelp(name: string): void {
+  const matches = COMMANDS.filter((c) => c.command === name || c.command.startsWith(`${name} `))
+  if (matches.length === 0) {
+    throw new UsageError(`help: unknown command ${name} (available: ${commandNames().join(", ")})`)
+  }
+  const sections = matches.map((schema) => formatCommandHelp(schema, PROGRAM))
+  sections.push(["Global options:", ...formatOptions(getGlobalOptions())].join("\n"))
+  console.log(sections.join("\n\n"))
+}
+
+export function cmdHelp(argsv: string[]): void {
+  const words = argsv.filter((a) => !a.startsWith("-"))
+  if (words.length === 0) printHelp()
+  else printCommandHelp(words.join(" "))
+}
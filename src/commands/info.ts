@@ -1,23 +1,38 @@
 // Info command handler
 
 import type { Provider } from "../providers/index.ts"
-import { parseArgs, ensureNumber } from "../utils/args.ts"
+import type { TitleDetails } from "../types.ts"
+import { defineCommand, parseOptions, UsageError } from "../utils/args.ts"
+import { isJsonOutput, printJson } from "../utils/output.ts"
+import { TITLE_ID, titleIdValue } from "./options.ts"
 
-export async function cmdInfo(provider: Provider, argsv: string[]): Promise<void> {
-  const args = parseArgs(argsv)
-  const titleId = args.titleId as string | undefined
-  const numericId = ensureNumber(args.titleId)
+export const infoCommand = defineCommand({
+  command: "info",
+  summary: "Show a title's type and episode counts",
+  options: { titleId: TITLE_ID },
+  examples: ["info --titleId 3235"],
+})
 
-  // Allow both numeric IDs (yopflix) and path IDs (frenchstream)
-  const id = numericId ?? titleId
+// --json: the title's details without its episodes (see `list --json`)
+export interface InfoOutput {
+  provider: string
+  title: Omit<TitleDetails, "episodes"> & { videoCount: number }
+}
 
-  if (!id) {
-    console.error("info: --titleId is required")
-    process.exit(1)
-  }
+export async function cmdInfo(provider: Provider, argsv: string[]): Promise<void> {
+  const opts = parseOptions(infoCommand, argsv)
+  // Allow both numeric IDs (yopflix) and path IDs (frenchstream)
+  const id = titleIdValue(opts.titleId)
+  if (!id) throw new UsageError("info: --titleId is required", "info")
 
   const details = await provider.getDetails(id)
 
+  if (isJsonOutput()) {
+    const { episodes, ...title } = details
+    printJson({ provider: provider.name, title: { ...title, videoCount: episodes.length } } satisfies InfoOutput)
+    return
+  }
+
   console.log(
     JSON.stringify(
       {
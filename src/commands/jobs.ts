@@ -0,0 +1,88 @@
+// Jobs command handler: inspect and retry the download manifest of an output directory
+
+import path from "node:path"
+import { defineCommand, getSubcommand, parseOptions, UsageError } from "../utils/args.ts"
+import { JobManifest, type JobRecord } from "../utils/manifest.ts"
+import { jobLabel, parseRunJobsOptions, printFailureSummary, RUN_JOB_OPTIONS, runJobs } from "../utils/jobs.ts"
+import { log } from "../utils/log.ts"
+import { isJsonOutput, printJson } from "../utils/output.ts"
+import { OUT_DIR } from "./options.ts"
+
+export const jobsListCommand = defineCommand({
+  command: "jobs list",
+  summary: "Show the download state of an output directory (the default jobs action)",
+  options: {
+    outDir: OUT_DIR,
+    status: {
+      type: "string",
+      placeholder: "status",
+      choices: ["pending", "downloading", "done", "failed"],
+      description: "Only show jobs with this status",
+    },
+  },
+  examples: ["jobs --outDir ./downloads --status failed"],
+})
+
+export const jobsRetryCommand = defineCommand({
+  command: "jobs retry",
+  summary: "Download the failed jobs of an output directory again",
+  options: { outDir: OUT_DIR, ...RUN_JOB_OPTIONS },
+  examples: ["jobs retry --outDir ./downloads --backend ytdlp"],
+})
+
+// --json for `jobs list`; `jobs retry` prints the same NDJSON events as download
+export interface JobsListOutput {
+  manifest: string
+  jobs: JobRecord[]
+}
+
+function formatSize(bytes?: number): string {
+  if (bytes === undefined) return "-"
+  return `${(bytes / 1024 / 1024).toFixed(1)} MiB`
+}
+
+function printJobs(jobs: JobRecord[]): void {
+  if (jobs.length === 0) {
+    console.log("No jobs.")
+    return
+  }
+  for (const job of jobs) {
+    const host = job.source ? `${job.source.host}${job.source.language ? ` [${job.source.language}]` : ""}` : "-"
+    const error = job.error ? `\t${job.error}` : ""
+    console.log(
+      `${job.status}\t${job.attempts}\t${job.showName} ${jobLabel(job)}\t${host}\t${formatSize(job.size)}\t${job.outputPath}${error}`
+    )
+  }
+}
+
+export async function cmdJobs(argsv: string[]): Promise<void> {
+  const { action, rest } = getSubcommand(argsv, "list")
+
+  switch (action) {
+    case "list": {
+      const opts = parseOptions(jobsListCommand, rest)
+      const manifest = await JobManifest.load(opts.outDir ?? path.join(process.cwd(), "downloads"))
+      const jobs = manifest.list().filter((j) => !opts.status || j.status === opts.status)
+      if (isJsonOutput()) printJson({ manifest: manifest.filePath, jobs } satisfies JobsListOutput)
+      else printJobs(jobs)
+      break
+    }
+    case "retry": {
+      const opts = parseOptions(jobsRetryCommand, rest)
+      const runOpts = parseRunJobsOptions(opts)
+      const manifest = await JobManifest.load(opts.outDir ?? path.join(process.cwd(), "downloads"))
+      const failed = manifest.list().filter((j) => j.status === "failed")
+      if (failed.length === 0) {
+        log.info("No failed jobs to retry.")
+        runOpts.onEvent?.({ event: "summary", done: 0, failed: 0, skipped: 0, cancelled: 0 })
+        return
+      }
+      log.info(`Retrying ${failed.length} failed job(s) from ${manifest.filePath}`)
+      const failures = await runJobs(manifest, failed, runOpts)
+      printFailureSummary(failures)
+      break
+    }
+    default:
+      throw new UsageError(`jobs: unknown action ${action} (expected list or retry)`, "jobs")
+  }
+}
@@ -1,34 +1,105 @@
 // List command handler
 
 import type { Provider } from "../providers/index.ts"
-import { parseArgs, ensureNumber } from "../utils/args.ts"
+import type { Episode, EpisodeSource } from "../types.ts"
+import type { SubtitleTrack } from "../resolvers/base.ts"
+import { defineCommand, parseOptions, UsageError } from "../utils/args.ts"
+import { applyLanguagePreference, parseLanguageList } from "../utils/language.ts"
+import { resolveStream } from "../utils/download.ts"
+import { isHlsUrl, type HlsVariant } from "../utils/hls.ts"
+import { formatVariant } from "../utils/quality.ts"
+import { isJsonOutput, printJson } from "../utils/output.ts"
+import { LANG, TITLE_ID, titleIdValue } from "./options.ts"
 
-export async function cmdList(provider: Provider, argsv: string[]): Promise<void> {
-  const args = parseArgs(argsv)
-  const titleId = args.titleId as string | undefined
-  const numericId = ensureNumber(args.titleId)
+export const listCommand = defineCommand({
+  command: "list",
+  summary: "List every mirror of each video of a title, in the order they are tried",
+  options: {
+    titleId: TITLE_ID,
+    lang: { ...LANG, description: "Only keep these languages, in this order", default: undefined },
+    formats: { type: "boolean", description: "Resolve each mirror and show its resolutions and subtitles (slow)" },
+  },
+  examples: ["list --provider fs --titleId \"/s-tv/15123579-loups-garous-saison-2-2024.html\""],
+})
+
+// What a resolved mirror offers (--formats)
+type SourceFormats =
+  | { kind: "hls" | "file"; variants: HlsVariant[]; subtitles: SubtitleTrack[] }
+  | { error: string }
+
+// --json: episodes in download order; sources carry `formats` with --formats
+export interface ListOutput {
+  provider: string
+  titleId: string | number
+  episodes: Array<Episode & { sources: Array<EpisodeSource & { formats?: SourceFormats }> }>
+}
 
+export async function cmdList(provider: Provider, argsv: string[]): Promise<void> {
+  const opts = parseOptions(listCommand, argsv)
   // Allow both numeric IDs (yopflix) and path IDs (frenchstream)
-  const id = numericId ?? titleId
+  const id = titleIdValue(opts.titleId)
+  if (!id) throw new UsageError("list: --titleId is required", "list")
 
-  if (!id) {
-    console.error("list: --titleId is required")
-    process.exit(1)
+  const languages = parseLanguageList(opts.lang)
+  const showFormats = opts.formats === true
+  let episodes = await provider.getEpisodes(id)
+  if (languages) {
+    episodes = episodes.map((ep) => applyLanguagePreference(ep, languages)).filter((ep): ep is Episode => !!ep)
   }
 
-  const episodes = await provider.getEpisodes(id)
-
   // Sort by season and episode
   episodes.sort((a, b) =>
     (a.season ?? 0) - (b.season ?? 0) ||
     (a.episode ?? 0) - (b.episode ?? 0)
   )
 
+  if (isJsonOutput()) {
+    const output: ListOutput = { provider: provider.name, titleId: id, episodes: [] }
+    for (const ep of episodes) {
+      const sources: ListOutput["episodes"][number]["sources"] = []
+      for (const source of ep.sources) {
+        sources.push(showFormats ? { ...source, formats: await resolveFormats(source.url) } : source)
+      }
+      output.episodes.push({ ...ep, sources })
+    }
+    printJson(output)
+    return
+  }
+
   for (const ep of episodes) {
     const se = ep.season && ep.episode
       ? `S${String(ep.season).padStart(2, "0")}E${String(ep.episode).padStart(2, "0")}`
       : ep.name
-    const lang = ep.language ? ` [${ep.language}]` : ""
-    console.log(`${se}${lang}\t${ep.url}`)
+    // One line per mirror, in the order they will be tried
+    for (const source of ep.sources) {
+      const lang = source.language ? ` [${source.language}]` : ""
+      console.log(`${se}\t${source.host}${lang}\t${source.url}`)
+      if (showFormats) printFormats(await resolveFormats(source.url))
+    }
+  }
+}
+
+// Resolve the mirror to see what it offers (resolves every mirror, so it is slow)
+async function resolveFormats(url: string): Promise<SourceFormats> {
+  try {
+    const stream = await resolveStream(url)
+    const kind = isHlsUrl(stream.url) ? "hls" : "file"
+    return { kind, variants: stream.variants, subtitles: stream.subtitles }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+function printFormats(formats: SourceFormats): void {
+  if ("error" in formats) {
+    console.log(`\t\tunavailable: ${formats.error}`)
+    return
+  }
+  if (formats.variants.length === 0) {
+    console.log(`\t\t${formats.kind === "hls" ? "single-rendition HLS" : "direct file"}`)
+  }
+  for (const variant of formats.variants) console.log(`\t\t${formatVariant(variant)}`)
+  for (const track of formats.subtitles) {
+    console.log(`\t\tsubtitles ${track.language ?? "und"}${track.label ? ` (${track.label})` : ""}`)
   }
 }
@@ -0,0 +1,96 @@
+// Mirrors command handler: show, probe or forget the domains each provider uses
+
+import { defineCommand, getSubcommand, parseOptions, UsageError } from "../utils/args.ts"
+import { uniqueProviders } from "../providers/all.ts"
+import type { MirrorStatus, RememberedMirror } from "../utils/mirrors.ts"
+import { isJsonOutput, printJson } from "../utils/output.ts"
+
+export const mirrorsListCommand = defineCommand({
+  command: "mirrors list",
+  summary: "Show each provider's candidate domains and the one in use (the default mirrors action)",
+  options: {},
+})
+
+export const mirrorsCheckCommand = defineCommand({
+  command: "mirrors check",
+  summary: "Probe every candidate domain",
+  options: {},
+})
+
+export const mirrorsResetCommand = defineCommand({
+  command: "mirrors reset",
+  summary: "Forget the remembered domains so the next run probes again",
+  options: {},
+})
+
+// --json, one document per action
+export interface MirrorsListOutput {
+  providers: Array<{ provider: string; candidates: string[]; inUse?: RememberedMirror }>
+}
+
+export interface MirrorsCheckOutput {
+  providers: Array<{ provider: string; mirrors: MirrorStatus[] }>
+}
+
+export interface MirrorsResetOutput {
+  reset: string[] // Providers whose remembered domain was forgotten
+}
+
+const ACTIONS = { list: mirrorsListCommand, check: mirrorsCheckCommand, reset: mirrorsResetCommand }
+
+export async function cmdMirrors(argsv: string[]): Promise<void> {
+  const { action, rest } = getSubcommand(argsv, "list")
+  const schema = ACTIONS[action as keyof typeof ACTIONS]
+  if (!schema) throw new UsageError(`mirrors: unknown action ${action} (expected list, check or reset)`, "mirrors")
+  parseOptions(schema, rest)
+  const withMirrors = uniqueProviders().filter((p) => p.mirrors)
+
+  switch (action) {
+    case "list": {
+      const output: MirrorsListOutput = { providers: [] }
+      for (const provider of withMirrors) {
+        const mirrors = provider.mirrors!
+        const [candidates, inUse] = [await mirrors.candidates(), await mirrors.remembered()]
+        output.providers.push({ provider: provider.name, candidates, inUse })
+      }
+      if (isJsonOutput()) {
+        printJson(output)
+        break
+      }
+      for (const { provider, candidates, inUse } of output.providers) {
+        console.log(`${provider}:`)
+        for (const url of candidates) {
+          const mark = inUse?.url === url ? ` (in use, checked ${inUse.checkedAt})` : ""
+          console.log(`  ${url}${mark}`)
+        }
+        if (inUse && !candidates.includes(inUse.url)) {
+          console.log(`  ${inUse.url} (in use via redirect, checked ${inUse.checkedAt})`)
+        }
+      }
+      break
+    }
+    case "check": {
+      const output: MirrorsCheckOutput = { providers: [] }
+      for (const provider of withMirrors) {
+        output.providers.push({ provider: provider.name, mirrors: await provider.mirrors!.checkAll() })
+      }
+      if (isJsonOutput()) {
+        printJson(output)
+        break
+      }
+      for (const { provider, mirrors } of output.providers) {
+        console.log(`${provider}:`)
+        for (const status of mirrors) {
+          console.log(`  ${status.healthy ? "ok  " : "down"} ${status.url} (${status.detail})`)
+        }
+      }
+      break
+    }
+    case "reset": {
+      for (const provider of withMirrors) await provider.mirrors!.forget()
+      if (isJsonOutput()) printJson({ reset: withMirrors.map((p) => p.name) } satisfies MirrorsResetOutput)
+      else console.log("Forgot remembered mirrors; the next run probes the candidates again.")
+      break
+    }
+  }
+}
@@ -0,0 +1,142 @@
+// Play and stream command handlers: watch episodes without downloading them, through a local proxy
+// that any player (mpv, VLC, a TV on the LAN) can open
+
+import path from "node:path"
+import type { Provider } from "../providers/index.ts"
+import type { Episode } from "../types.ts"
+import { defineCommand, parseOptions, UsageError, type OptionSchema, type Options } from "../utils/args.ts"
+import { jobLabel } from "../utils/jobs.ts"
+import { applyLanguagePreference, parseLanguageList } from "../utils/language.ts"
+import { checkQuality, parseQuality } from "../utils/quality.ts"
+import { StreamProxy, type ProxiedVideo } from "../utils/streamproxy.ts"
+import { log } from "../utils/log.ts"
+import { isJsonOutput, printJson } from "../utils/output.ts"
+import { describeAvailable, describeSelection, filterEpisodes } from "./download.ts"
+import { LANG, QUERY, TITLE_ID, titleIdValue } from "./options.ts"
+
+const STREAM_OPTIONS = {
+  query: { ...QUERY, description: "Search text; the first series result is used" },
+  titleId: TITLE_ID,
+  season: { type: "range", alias: "s", placeholder: "1-3", description: "Seasons to play" },
+  episode: { type: "range", alias: "e", placeholder: "1-5,8", description: "Episode numbers to play" },
+  lang: LANG,
+  quality: {
+    type: "string",
+    placeholder: "best|worst|720p|<=480p",
+    description: "Pin one HLS variant (by default the player picks)",
+    validate: checkQuality,
+  },
+  host: {
+    type: "string",
+    placeholder: "address",
+    default: "127.0.0.1",
+    description: "Address the proxy listens on (0.0.0.0 for players on the LAN)",
+  },
+  port: { type: "integer", placeholder: "N", min: 0, default: "0", description: "Proxy port (0 picks a free one)" },
+  m3u: { type: "string", placeholder: "FILE", description: "Also write the playlist to FILE" },
+} as const satisfies OptionSchema
+
+type StreamOptions = Options<typeof STREAM_OPTIONS>
+
+export const playCommand = defineCommand({
+  command: "play",
+  summary: "Play episodes in mpv (or another player) without downloading them",
+  options: {
+    ...STREAM_OPTIONS,
+    player: { type: "string", placeholder: "command", default: "mpv", description: "Player to launch" },
+  },
+  examples: ["play -q psych -s 1 -e 3", "play --titleId 3235 -s 2 --player vlc"],
+})
+
+export const streamCommand = defineCommand({
+  command: "stream",
+  summary: "Serve episodes on a local URL (and an M3U playlist) for any player, until Ctrl+C",
+  options: STREAM_OPTIONS,
+  examples: ["stream -q psych -s 1 --m3u psych-s1.m3u", "stream --titleId 3235 -s 1 --host 0.0.0.0 --port 8788"],
+})
+
+export interface StreamOutput {
+  url: string
+  playlist: string
+  videos: Array<{ label: string; url: string }>
+}
+
+// The selected episodes, best language first, in watching order
+async function selectVideos(provider: Provider, opts: StreamOptions, command: string): Promise<ProxiedVideo[]> {
+  let titleId = titleIdValue(opts.titleId)
+  if (titleId === undefined) {
+    if (!opts.query) throw new UsageError(`${command}: provide --query or --titleId`, command)
+    const results = await provider.search(opts.query, 20)
+    const preferred = results.find((r) => r.type === "series") ?? results[0]
+    if (!preferred) throw new Error(`No results for query: ${opts.query}`)
+    log.info(`Using result: ${preferred.name} (id=${preferred.id})`)
+    titleId = preferred.id
+  }
+
+  const details = await provider.getDetails(titleId)
+  if (details.episodes.length === 0) throw new Error("No playable episodes found for title.")
+  const languages = parseLanguageList(opts.lang) ?? []
+  const episodes = filterEpisodes(details.episodes, { seasons: opts.season, episodes: opts.episode })
+    .map((ep) => (languages.length > 0 ? applyLanguagePreference(ep, languages) : ep))
+    .filter((ep): ep is Episode => !!ep)
+    .sort((a, b) => (a.season ?? 0) - (b.season ?? 0) || (a.episode ?? 0) - (b.episode ?? 0))
+  if (episodes.length === 0) {
+    const selection = describeSelection(opts.season, opts.episode)
+    throw new Error(`No episodes match ${selection}. Available: ${describeAvailable(details.episodes)}`)
+  }
+
+  return episodes.map((episode) => {
+    const label = details.type === "movie" ? details.name : `${details.name} - ${jobLabel(episode)}`
+    return { label: episode.title ? `${label} - ${episode.title}` : label, episode }
+  })
+}
+
+async function startProxy(provider: Provider, opts: StreamOptions, command: string): Promise<StreamProxy> {
+  const videos = await selectVideos(provider, opts, command)
+  const proxy = new StreamProxy(videos, {
+    host: opts.host ?? "127.0.0.1",
+    port: opts.port ?? 0,
+    quality: opts.quality ? parseQuality(opts.quality)! : undefined,
+  })
+  proxy.start()
+  if (opts.m3u) {
+    await Bun.write(opts.m3u, proxy.playlist())
+    log.info(`Wrote ${videos.length} video(s) to ${path.resolve(opts.m3u)} (valid while the proxy runs)`)
+  }
+  return proxy
+}
+
+export async function cmdPlay(provider: Provider, argsv: string[]): Promise<void> {
+  const opts = parseOptions(playCommand, argsv)
+  const player = opts.player ?? "mpv"
+  const playerPath = Bun.which(player)
+  if (!playerPath) {
+    throw new Error(`Player ${player} not found; use --player, or \`stream\` to get a URL for any player`)
+  }
+
+  const proxy = await startProxy(provider, opts, "play")
+  // One video opens directly; several go through the playlist so the player can skip between them
+  const single = proxy.entries().length === 1
+  const url = single ? proxy.videoUrl(0) : proxy.playlistUrl()
+  log.info(`Playing ${url} with ${player}`)
+  try {
+    const child = Bun.spawn([playerPath, url], { stdio: ["inherit", "inherit", "inherit"] })
+    const code = await child.exited
+    if (code !== 0) log.warn(`${player} exited with code ${code}`)
+  } finally {
+    proxy.stop()
+  }
+}
+
+export async function cmdStream(provider: Provider, argsv: string[]): Promise<void> {
+  const opts = parseOptions(streamCommand, argsv)
+  const proxy = await startProxy(provider, opts, "stream")
+  const output: StreamOutput = { url: proxy.baseUrl(), playlist: proxy.playlistUrl(), videos: proxy.entries() }
+  if (isJsonOutput()) {
+    printJson(output)
+    return
+  }
+  for (const video of output.videos) console.log(`${video.label}\t${video.url}`)
+  console.log(`Playlist: ${output.playlist}`)
+  log.info("Open a URL in any player; press Ctrl+C to stop")
+}
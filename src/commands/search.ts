@@ -1,20 +1,48 @@
 // Search command handler
 
 import type { Provider } from "../providers/index.ts"
-import { parseArgs, ensureNumber } from "../utils/args.ts"
+import type { Title } from "../types.ts"
+import { ALL_PROVIDERS, formatMatches, searchAll } from "../providers/all.ts"
+import { defineCommand, parseOptions, UsageError } from "../utils/args.ts"
+import { isJsonOutput, printJson } from "../utils/output.ts"
+import { QUERY } from "./options.ts"
 
-export async function cmdSearch(provider: Provider, argsv: string[]): Promise<void> {
-  const args = parseArgs(argsv)
-  const query = args.query as string | undefined
-  const limit = ensureNumber(args.limit) ?? 20
+export const searchCommand = defineCommand({
+  command: "search",
+  summary: "Search titles (one id per line; --provider all merges every provider)",
+  options: {
+    query: QUERY,
+    limit: { type: "integer", alias: "n", placeholder: "N", min: 1, default: "20", description: "Maximum results" },
+  },
+  examples: ["search -q psych", "search --provider all --query \"loups garous\""],
+})
 
-  if (!query) {
-    console.error("search: --query is required")
-    process.exit(1)
+// --json: with --provider all, each result also lists the provider ids that carry it
+export interface SearchOutput {
+  provider: string
+  query: string
+  results: Array<Title & { matches?: Array<{ provider: string; title: Title }> }>
+}
+
+export async function cmdSearch(provider: Provider | typeof ALL_PROVIDERS, argsv: string[]): Promise<void> {
+  const opts = parseOptions(searchCommand, argsv)
+  const query = opts.query
+  const limit = opts.limit ?? 20
+
+  if (!query) throw new UsageError("search: --query is required", "search")
+
+  if (provider === ALL_PROVIDERS) {
+    await searchEveryProvider(query, limit)
+    return
   }
 
   const results = await provider.search(query, limit)
 
+  if (isJsonOutput()) {
+    printJson({ provider: provider.name, query, results } satisfies SearchOutput)
+    return
+  }
+
   if (results.length === 0) {
     console.log("No results.")
     return
@@ -26,3 +54,25 @@ export async function cmdSearch(provider: Provider, argsv: string[]): Promise<vo
     console.log(`${r.id}\t${r.name}${year}${type}`)
   }
 }
+
+// One line per merged title, followed by the provider:id pairs that carry it
+async function searchEveryProvider(query: string, limit: number): Promise<void> {
+  const results = await searchAll(query, limit)
+  if (isJsonOutput()) {
+    const merged = results.map(({ matches, ...title }) => ({
+      ...title,
+      matches: matches.map((m) => ({ provider: m.provider.name, title: m.title })),
+    }))
+    printJson({ provider: ALL_PROVIDERS, query, results: merged } satisfies SearchOutput)
+    return
+  }
+  if (results.length === 0) {
+    console.log("No results.")
+    return
+  }
+  for (const r of results) {
+    const year = r.year ? ` (${r.year})` : ""
+    const type = r.type === "series" ? " [series]" : ""
+    console.log(`${r.name}${year}${type}\t${formatMatches(r)}`)
+  }
+}
@@ -0,0 +1,351 @@
+// Serve command handler: a local REST API for searching and queueing downloads from other machines
+
+import path from "node:path"
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto"
+import type { BunRequest } from "bun"
+import { providers, type Provider } from "../providers/index.ts"
+import { defineCommand, parseOptions, parseRanges, UsageError } from "../utils/args.ts"
+import { ApiJobQueue, isFinished, type ApiJob, type DownloadRequest, type JobPlan } from "../utils/apijobs.ts"
+import { buildJobRecords, parseRunJobsOptions, RUN_JOB_OPTIONS } from "../utils/jobs.ts"
+import { applyLanguagePreference, checkLanguageList, parseLanguageList } from "../utils/language.ts"
+import { checkQuality, parseQuality } from "../utils/quality.ts"
+import { checkTemplate, resolveTemplate, type NamingTemplate } from "../utils/naming.ts"
+import { writeMetadata } from "../utils/nfo.ts"
+import { log } from "../utils/log.ts"
+import { isJsonOutput, printJson } from "../utils/output.ts"
+import type { Episode } from "../types.ts"
+import { describeAvailable, describeSelection, filterEpisodes } from "./download.ts"
+import type { SearchOutput } from "./search.ts"
+import type { InfoOutput } from "./info.ts"
+import type { ListOutput } from "./list.ts"
+import { LANG, OUT_DIR, titleIdValue } from "./options.ts"
+
+export const TOKEN_ENV = "YOPFLIX_TOKEN"
+
+export const serveCommand = defineCommand({
+  command: "serve",
+  summary: "Run a REST API (search, info, list, download jobs with progress events) for other machines",
+  options: {
+    host: {
+      type: "string",
+      placeholder: "address",
+      default: "127.0.0.1",
+      description: "Address to listen on (0.0.0.0 for the LAN)",
+    },
+    port: { type: "integer", placeholder: "N", min: 0, default: "8787", description: "Port to listen on" },
+    token: {
+      type: "string",
+      placeholder: "secret",
+      description: `Token clients must send (default ${TOKEN_ENV}, or a random one printed at startup)`,
+    },
+    outDir: OUT_DIR,
+    lang: LANG,
+    multiLang: { type: "boolean", description: "One file per wanted language instead of the best one" },
+    template: {
+      type: "string",
+      placeholder: "preset|pattern",
+      default: "jellyfin",
+      description: "Output naming preset or pattern",
+      validate: (v: string) => checkTemplate(v),
+    },
+    movieTemplate: {
+      type: "string",
+      placeholder: "pattern",
+      description: "Output naming pattern for movies",
+      validate: (v: string) => checkTemplate(v, true),
+    },
+    noMetadata: { type: "boolean", description: "Do not write .nfo files and artwork" },
+    ...RUN_JOB_OPTIONS,
+  },
+  examples: ["serve --host 0.0.0.0 --port 8787 --outDir /mnt/media/Series --concurrency 2"],
+})
+
+// Server-wide defaults for download jobs; requests may override the languages and quality
+interface ServeSettings {
+  provider: Provider
+  outDir: string
+  languages?: string[]
+  multiLang: boolean
+  template: NamingTemplate
+  metadata: boolean
+}
+
+// Bad requests: the message goes back to the client with the status
+class RequestError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400
+  ) {
+    super(message)
+  }
+}
+
+const HEARTBEAT_MS = 15_000
+const encoder = new TextEncoder()
+
+function json(data: unknown, status = 200): Response {
+  return Response.json(data, { status })
+}
+
+// `Authorization: Bearer <token>`, or `?token=` for EventSource clients that cannot set headers
+function authorized(req: Request, token: string): boolean {
+  const header = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]
+  const given = header ?? new URL(req.url).searchParams.get("token")
+  if (!given) return false
+  const digest = (value: string) => createHash("sha256").update(value).digest()
+  return timingSafeEqual(digest(given), digest(token))
+}
+
+type Handler<P extends string> = (req: BunRequest<P>) => Response | Promise<Response>
+
+function guarded<P extends string>(token: string, handler: Handler<P>): Handler<P> {
+  return async (req) => {
+    if (!authorized(req, token)) return json({ error: "missing or wrong token" }, 401)
+    try {
+      return await handler(req)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      if (err instanceof RequestError) return json({ error: message }, err.status)
+      log.error(`${req.method} ${new URL(req.url).pathname}: ${message}`)
+      return json({ error: message }, 500)
+    }
+  }
+}
+
+function providerParam(name: string | null | undefined, fallback: Provider): Provider {
+  if (!name) return fallback
+  const provider = providers[name]
+  if (!provider) throw new RequestError(`unknown provider ${name} (available: ${Object.keys(providers).join(", ")})`)
+  return provider
+}
+
+function titleIdParam(url: URL): string | number {
+  const id = titleIdValue(url.searchParams.get("titleId") ?? undefined)
+  if (id === undefined || id === "") throw new RequestError("titleId is required")
+  return id
+}
+
+function languagesParam(value: string | null | undefined): string[] | undefined {
+  if (!value) return undefined
+  const problem = checkLanguageList(value)
+  if (problem) throw new RequestError(`lang: ${problem}`)
+  return parseLanguageList(value)
+}
+
+function rangesField(body: Record<string, unknown>, name: string): number[] | undefined {
+  const value = body[name]
+  if (value === undefined) return undefined
+  const scalar = typeof value === "number" || typeof value === "string"
+  const text = Array.isArray(value) ? value.join(",") : scalar ? String(value) : ""
+  const ranges = parseRanges(text)
+  if (!ranges) throw new RequestError(`${name} expects numbers or ranges like "1-5,8"`)
+  return ranges
+}
+
+const REQUEST_FIELDS = ["provider", "titleId", "query", "season", "episode", "max", "lang", "multiLang", "quality"]
+
+// POST /api/jobs body: { provider?, titleId? | query?, season?, episode?, max?, lang?, multiLang?, quality? }
+function parseDownloadRequest(body: unknown, fallback: Provider): DownloadRequest {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) throw new RequestError("expected a JSON object")
+  const fields = body as Record<string, unknown>
+  const unknown = Object.keys(fields).filter((k) => !REQUEST_FIELDS.includes(k))
+  if (unknown.length > 0) throw new RequestError(`unknown field(s) ${unknown.join(", ")} (expected ${REQUEST_FIELDS.join(", ")})`)
+
+  const { provider, titleId, query, max, lang, multiLang, quality } = fields
+  for (const [name, value] of Object.entries({ provider, query, quality })) {
+    if (value !== undefined && typeof value !== "string") throw new RequestError(`${name} must be a string`)
+  }
+  if (titleId !== undefined && typeof titleId !== "string" && typeof titleId !== "number") {
+    throw new RequestError("titleId must be a string or a number")
+  }
+  if (titleId === undefined && !query) throw new RequestError("provide query or titleId")
+  if (max !== undefined && !(typeof max === "number" && Number.isInteger(max) && max >= 1)) {
+    throw new RequestError("max must be a whole number >= 1")
+  }
+  if (multiLang !== undefined && typeof multiLang !== "boolean") throw new RequestError("multiLang must be true or false")
+  if (lang !== undefined && typeof lang !== "string" && !Array.isArray(lang)) {
+    throw new RequestError(`lang must be a string like "vostfr,vf" or a list`)
+  }
+  const qualityProblem = typeof quality === "string" ? checkQuality(quality) : undefined
+  if (qualityProblem) throw new RequestError(`quality: ${qualityProblem}`)
+
+  return {
+    provider: providerParam(provider as string | undefined, fallback).name,
+    titleId: typeof titleId === "string" ? titleIdValue(titleId) : titleId,
+    query: query as string | undefined,
+    seasons: rangesField(fields, "season"),
+    episodes: rangesField(fields, "episode"),
+    max: max as number | undefined,
+    languages: languagesParam(Array.isArray(lang) ? lang.join(",") : (lang as string | undefined)),
+    multiLang: multiLang as boolean | undefined,
+    quality: quality as string | undefined,
+  }
+}
+
+// Search, list and filter the episodes when the job starts, like the download command does
+async function planDownload(request: DownloadRequest, settings: ServeSettings): Promise<JobPlan> {
+  const provider = providerParam(request.provider, settings.provider)
+  let titleId = request.titleId
+  if (titleId === undefined) {
+    const results = await provider.search(request.query!, 20)
+    const preferred = results.find((r) => r.type === "series") ?? results[0]
+    if (!preferred) throw new Error(`No results for query: ${request.query}`)
+    titleId = preferred.id
+  }
+
+  const details = await provider.getDetails(titleId)
+  if (details.episodes.length === 0) throw new Error("No downloadable episodes found for title.")
+  let episodes = filterEpisodes(details.episodes, { seasons: request.seasons, episodes: request.episodes })
+  if (episodes.length === 0) {
+    const selection = describeSelection(request.seasons, request.episodes)
+    throw new Error(`No episodes match ${selection}. Available: ${describeAvailable(details.episodes)}`)
+  }
+  if (request.max) episodes = episodes.slice(0, request.max)
+
+  const title = { id: titleId, name: details.name, year: details.year }
+  const { outDir, template } = settings
+  const records = buildJobRecords(provider.name, title, episodes, outDir, {
+    languages: request.languages ?? settings.languages,
+    multiLang: request.multiLang ?? settings.multiLang,
+    template,
+  })
+  return {
+    title: { provider: provider.name, id: titleId, name: details.name },
+    outDir,
+    records,
+    quality: request.quality ? parseQuality(request.quality)! : undefined,
+    finish: settings.metadata ? (done) => writeMetadata(details, provider.name, done, template) : undefined,
+  }
+}
+
+// Server-Sent Events: the current job snapshots first, then every message as it happens.
+// A stream for one job ends once the job has finished.
+function eventStream(queue: ApiJobQueue, job?: ApiJob): Response {
+  let cleanup = () => {}
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      const close = () => {
+        cleanup()
+        controller.close()
+      }
+
+      for (const current of job ? [job] : queue.list()) send("job", current)
+      if (job && isFinished(job)) return close()
+
+      const unsubscribe = queue.subscribe((message) => {
+        if (job && message.job !== job.id) return
+        send(message.event, message.data)
+        if (job && message.event === "job" && isFinished(job)) close()
+      })
+      // Comments keep proxies and the server's idle timeout from closing a quiet stream
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(": keep-alive\n\n")), HEARTBEAT_MS)
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(heartbeat)
+      }
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+  return new Response(body, { headers: { "content-type": "text/event-stream", "cache-control": "no-cache" } })
+}
+
+export async function cmdServe(provider: Provider, argsv: string[]): Promise<void> {
+  const opts = parseOptions(serveCommand, argsv)
+  const token = opts.token ?? process.env[TOKEN_ENV] ?? randomBytes(18).toString("base64url")
+  if (token.length < 8) throw new UsageError("serve: --token must be at least 8 characters", "serve")
+
+  const settings: ServeSettings = {
+    provider,
+    outDir: path.resolve(opts.outDir ?? path.join(process.cwd(), "downloads")),
+    languages: parseLanguageList(opts.lang),
+    multiLang: opts.multiLang === true,
+    template: resolveTemplate(opts.template, opts.movieTemplate),
+    metadata: opts.noMetadata !== true,
+  }
+  // Events go to SSE clients; the server's own stdout stays human-readable
+  const queue = new ApiJobQueue((request) => planDownload(request, settings), { ...parseRunJobsOptions(opts), onEvent: undefined })
+
+  const jobParam = (req: BunRequest<"/api/jobs/:id"> | BunRequest<"/api/jobs/:id/events">): ApiJob => {
+    const job = queue.get(req.params.id)
+    if (!job) throw new RequestError(`no job ${req.params.id}`, 404)
+    return job
+  }
+
+  const server = Bun.serve({
+    hostname: opts.host ?? "127.0.0.1",
+    port: opts.port ?? 8787,
+    idleTimeout: 60,
+    routes: {
+      "/api/health": () => json({ ok: true }),
+      "/api/search": {
+        GET: guarded(token, async (req) => {
+          const url = new URL(req.url)
+          const source = providerParam(url.searchParams.get("provider"), provider)
+          const query = url.searchParams.get("query")
+          if (!query) throw new RequestError("query is required")
+          const limit = Number(url.searchParams.get("limit") ?? 20)
+          if (!Number.isInteger(limit) || limit < 1) throw new RequestError("limit must be a whole number >= 1")
+          const results = await source.search(query, limit)
+          return json({ provider: source.name, query, results } satisfies SearchOutput)
+        }),
+      },
+      "/api/info": {
+        GET: guarded(token, async (req) => {
+          const url = new URL(req.url)
+          const source = providerParam(url.searchParams.get("provider"), provider)
+          const { episodes, ...title } = await source.getDetails(titleIdParam(url))
+          return json({ provider: source.name, title: { ...title, videoCount: episodes.length } } satisfies InfoOutput)
+        }),
+      },
+      "/api/list": {
+        GET: guarded(token, async (req) => {
+          const url = new URL(req.url)
+          const source = providerParam(url.searchParams.get("provider"), provider)
+          const titleId = titleIdParam(url)
+          const languages = languagesParam(url.searchParams.get("lang"))
+          let episodes = await source.getEpisodes(titleId)
+          if (languages) {
+            episodes = episodes.map((ep) => applyLanguagePreference(ep, languages)).filter((ep): ep is Episode => !!ep)
+          }
+          episodes.sort((a, b) => (a.season ?? 0) - (b.season ?? 0) || (a.episode ?? 0) - (b.episode ?? 0))
+          return json({ provider: source.name, titleId, episodes } satisfies ListOutput)
+        }),
+      },
+      "/api/jobs": {
+        GET: guarded(token, () => json({ jobs: queue.list() })),
+        POST: guarded(token, async (req) => {
+          const body = await req.json().catch(() => {
+            throw new RequestError("body must be JSON")
+          })
+          return json(queue.add(parseDownloadRequest(body, provider)), 202)
+        }),
+      },
+      "/api/jobs/:id": {
+        GET: guarded(token, (req) => json(jobParam(req))),
+        DELETE: guarded(token, (req) => {
+          const job = jobParam(req)
+          if (isFinished(job)) throw new RequestError(`job ${job.id} already ${job.status}`, 409)
+          return json(queue.cancel(job.id), 202)
+        }),
+      },
+      "/api/jobs/:id/events": { GET: guarded(token, (req) => eventStream(queue, jobParam(req))) },
+      "/api/events": { GET: guarded(token, () => eventStream(queue)) },
+    },
+    fetch: () => json({ error: "not found" }, 404),
+  })
+
+  const url = `http://${server.hostname}:${server.port}`
+  if (isJsonOutput()) {
+    printJson({ url, token })
+    return
+  }
+  log.info(`Listening on ${url} (downloads go to ${settings.outDir})`)
+  if (!opts.token && !process.env[TOKEN_ENV]) {
+    log.info(`Token: ${token} (set --token or ${TOKEN_ENV} to keep it across restarts)`)
+  }
+  log.info(`Try: curl -H "Authorization: Bearer <token>" "${url}/api/search?query=psych"`)
+}
@@ -0,0 +1,99 @@
+// Verify command handler: check every video of a library with ffprobe
+
+import path from "node:path"
+import { defineCommand, parseOptions } from "../utils/args.ts"
+import { JobManifest, sha256File } from "../utils/manifest.ts"
+import { checkMedia, findFfprobe, quarantineFile, QUARANTINE_DIR } from "../utils/verify.ts"
+import { log } from "../utils/log.ts"
+import { isJsonOutput, printJson } from "../utils/output.ts"
+import { OUT_DIR } from "./options.ts"
+
+export const verifyCommand = defineCommand({
+  command: "verify",
+  summary: "Check every video in an output directory with ffprobe and against the checksums recorded at download",
+  options: {
+    outDir: OUT_DIR,
+    quarantine: {
+      type: "boolean",
+      description: `Move failing files to ${QUARANTINE_DIR}/ and mark their jobs failed for \`jobs retry\``,
+    },
+  },
+  examples: ["verify --outDir /mnt/media/Series", "verify -o ./downloads --quarantine"],
+})
+
+const VIDEO_GLOB = new Bun.Glob("**/*.{mp4,mkv,m4v,webm,avi}")
+
+// --json
+export interface VerifyOutput {
+  outDir: string
+  files: Array<{
+    path: string
+    ok: boolean
+    problems: string[]
+    warnings: string[]
+    duration?: number
+    quarantinedTo?: string
+  }>
+  ok: number
+  failed: number
+}
+
+function formatDuration(seconds?: number): string {
+  if (seconds === undefined) return "-"
+  const pad = (n: number) => String(Math.floor(n)).padStart(2, "0")
+  return `${Math.floor(seconds / 3600)}:${pad((seconds / 60) % 60)}:${pad(seconds % 60)}`
+}
+
+export async function cmdVerify(argsv: string[]): Promise<void> {
+  const opts = parseOptions(verifyCommand, argsv)
+  const outDir = path.resolve(opts.outDir ?? path.join(process.cwd(), "downloads"))
+  if (!(await findFfprobe())) {
+    throw new Error("verify needs ffprobe (install ffmpeg, or set FFPROBE_BIN or binaries.ffprobe)")
+  }
+
+  // Hidden folders (the quarantine itself) are skipped
+  const files = (await Array.fromAsync(VIDEO_GLOB.scan({ cwd: outDir, dot: false }))).sort()
+  const manifest = await JobManifest.load(outDir)
+  const output: VerifyOutput = { outDir, files: [], ok: 0, failed: 0 }
+
+  for (const relative of files) {
+    const filePath = path.join(outDir, relative)
+    const check = (await checkMedia(filePath))!
+    // A finished job recorded the file's sha256; a different one means it was damaged or replaced since
+    const records = manifest.list().filter((r) => path.resolve(r.outputPath) === filePath)
+    const recorded = records.find((r) => r.status === "done" && r.checksum)?.checksum
+    if (recorded && (await sha256File(filePath)) !== recorded) {
+      check.problems.push("checksum differs from the one recorded at download")
+      check.ok = false
+    }
+    const { ok, problems, warnings, duration } = check
+    const result: VerifyOutput["files"][number] = { path: filePath, ok, problems, warnings, duration }
+    if (check.ok) {
+      output.ok += 1
+    } else {
+      output.failed += 1
+      if (opts.quarantine) {
+        result.quarantinedTo = await quarantineFile(filePath)
+        const error = `failed verification (${check.problems.join(", ")})`
+        for (const record of records) {
+          await manifest.update(record.key, { status: "failed", error })
+        }
+      }
+    }
+    output.files.push(result)
+    if (!isJsonOutput()) {
+      const moved = result.quarantinedTo ? ` -> ${result.quarantinedTo}` : ""
+      const detail = check.ok ? `\t${warnings.join("; ")}`.trimEnd() : `\t${check.problems.join(", ")}${moved}`
+      console.log(`${check.ok ? "ok" : "FAIL"}\t${formatDuration(check.duration)}\t${filePath}${detail}`)
+    }
+  }
+
+  if (isJsonOutput()) {
+    printJson(output)
+    return
+  }
+  log.info(`Checked ${files.length} file(s): ${output.ok} ok, ${output.failed} failed`)
+  if (output.failed > 0 && !opts.quarantine) {
+    log.info("Run again with --quarantine to move them aside, then `jobs retry` to download them again")
+  }
+}
@@ -0,0 +1,261 @@
+// Watch command handler: follow series and download new episodes as they appear
+
+import path from "node:path"
+import type { Provider } from "../providers/index.ts"
+import { getProvider } from "../providers/index.ts"
+import { defineCommand, getSubcommand, parseOptions, UsageError, type Options } from "../utils/args.ts"
+import { loadWatchlist, saveWatchlist, watchKey, type WatchEntry } from "../utils/watchlist.ts"
+import { parseLanguageList } from "../utils/language.ts"
+import { JobManifest, type JobRecord } from "../utils/manifest.ts"
+import {
+  buildJobRecords,
+  isComplete,
+  parseRunJobsOptions,
+  printFailureSummary,
+  RUN_JOB_OPTIONS,
+  runJobs,
+  type RunJobsOptions,
+} from "../utils/jobs.ts"
+import { sleep } from "../utils/download.ts"
+import { writeMetadata } from "../utils/nfo.ts"
+import { checkTemplate, resolveTemplate } from "../utils/naming.ts"
+import { getCacheMode, setCacheMode } from "../utils/cache.ts"
+import { log } from "../utils/log.ts"
+import { isJsonOutput, printEvent, printJson } from "../utils/output.ts"
+import { LANG, OUT_DIR, QUERY, TITLE_ID, titleIdValue } from "./options.ts"
+
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000
+
+export const watchAddCommand = defineCommand({
+  command: "watch add",
+  summary: "Follow a series; `watch run` downloads its new episodes",
+  options: {
+    query: QUERY,
+    titleId: TITLE_ID,
+    season: { type: "integer", alias: "s", placeholder: "N", min: 1, description: "Only follow this season" },
+    outDir: OUT_DIR,
+    lang: LANG,
+    multiLang: { type: "boolean", description: "One file per wanted language instead of the best one" },
+    template: {
+      type: "string",
+      placeholder: "preset|pattern",
+      description: "Output naming preset or pattern",
+      validate: (v: string) => checkTemplate(v),
+    },
+    movieTemplate: {
+      type: "string",
+      placeholder: "pattern",
+      description: "Output naming pattern for movies",
+      validate: (v: string) => checkTemplate(v, true),
+    },
+  },
+  examples: ["watch add --provider fs --query \"loups garous\" --season 2 --outDir /mnt/media/Series"],
+})
+
+export const watchRemoveCommand = defineCommand({
+  command: "watch remove",
+  summary: "Stop following a title",
+  options: { titleId: TITLE_ID },
+})
+
+export const watchListCommand = defineCommand({
+  command: "watch list",
+  summary: "Show followed titles (the default watch action)",
+  options: {},
+})
+
+export const watchRunCommand = defineCommand({
+  command: "watch run",
+  summary: "Check followed titles and download new episodes, every --interval or --once",
+  options: {
+    once: { type: "boolean", description: "Check every title once and exit (for cron)" },
+    interval: { type: "duration", placeholder: "6h", default: "6h", description: "Time between checks" },
+    ...RUN_JOB_OPTIONS,
+  },
+  examples: ["watch run --once --concurrency 2"],
+})
+
+// --json for add, remove and list; `watch run` prints download events plus one
+// { "event": "checked", "watch": key, "name", "queued", "error"? } per followed title
+export interface WatchAddOutput {
+  entry: WatchEntry
+}
+
+export interface WatchRemoveOutput {
+  removed: string
+}
+
+export interface WatchListOutput {
+  entries: WatchEntry[]
+}
+
+async function resolveTitle(provider: Provider, opts: Options<typeof watchAddCommand.options>) {
+  const titleId = titleIdValue(opts.titleId)
+  if (titleId) return provider.getDetails(titleId)
+
+  const query = opts.query
+  if (!query) throw new UsageError("watch add: provide --query or --titleId", "watch add")
+  const results = await provider.search(query, 20)
+  const preferred = results.find((r) => r.type === "series") ?? results[0]
+  if (!preferred) throw new Error(`No results for query: ${query}`)
+  return provider.getDetails(preferred.id)
+}
+
+async function addEntry(provider: Provider, opts: Options<typeof watchAddCommand.options>): Promise<void> {
+  const template = opts.template || opts.movieTemplate ? resolveTemplate(opts.template, opts.movieTemplate) : undefined
+  const details = await resolveTitle(provider, opts)
+  const entry: WatchEntry = {
+    provider: provider.name,
+    titleId: details.id,
+    name: details.name,
+    season: opts.season,
+    languages: parseLanguageList(opts.lang),
+    multiLang: opts.multiLang === true ? true : undefined,
+    outDir: path.resolve(opts.outDir ?? path.join(process.cwd(), "downloads")),
+    template,
+    addedAt: new Date().toISOString(),
+  }
+
+  const entries = (await loadWatchlist()).filter((e) => watchKey(e) !== watchKey(entry))
+  entries.push(entry)
+  await saveWatchlist(entries)
+  if (isJsonOutput()) {
+    printJson({ entry } satisfies WatchAddOutput)
+    return
+  }
+  const season = entry.season ? ` season ${entry.season}` : ""
+  console.log(`Watching ${entry.name}${season} (${watchKey(entry)}) -> ${entry.outDir}`)
+}
+
+async function removeEntry(provider: Provider, opts: Options<typeof watchRemoveCommand.options>): Promise<void> {
+  const titleId = opts.titleId
+  if (!titleId) throw new UsageError("watch remove: --titleId is required", "watch remove")
+  const key = watchKey({ provider: provider.name, titleId })
+  const entries = await loadWatchlist()
+  const remaining = entries.filter((e) => watchKey(e) !== key)
+  if (remaining.length === entries.length) throw new Error(`Not watching ${key}`)
+  await saveWatchlist(remaining)
+  if (isJsonOutput()) printJson({ removed: key } satisfies WatchRemoveOutput)
+  else console.log(`Stopped watching ${key}`)
+}
+
+function printEntries(entries: WatchEntry[]): void {
+  if (isJsonOutput()) {
+    printJson({ entries } satisfies WatchListOutput)
+    return
+  }
+  if (entries.length === 0) {
+    console.log("Not watching anything.")
+    return
+  }
+  for (const e of entries) {
+    const season = e.season ? ` [season ${e.season}]` : ""
+    const checked = e.lastCheckedAt ? `last checked ${e.lastCheckedAt}` : "never checked"
+    console.log(`${e.provider}\t${e.titleId}\t${e.name}${season}\t${e.outDir}\t${checked}`)
+  }
+}
+
+// Check one followed title and queue the episodes that are not on disk yet, or no longer play
+async function checkEntry(entry: WatchEntry, opts: RunJobsOptions): Promise<{ queued: number; failed: number }> {
+  const provider = getProvider(entry.provider)
+  const details = await provider.getDetails(entry.titleId)
+  const episodes = details.episodes
+  const wanted = entry.season ? episodes.filter((ep) => ep.season === entry.season) : episodes
+
+  const manifest = await JobManifest.load(entry.outDir)
+  const title = { id: entry.titleId, name: entry.name, year: details.year }
+  const records = buildJobRecords(provider.name, title, wanted, entry.outDir, {
+    languages: entry.languages,
+    multiLang: entry.multiLang,
+    template: entry.template,
+  })
+  // Episodes already downloaded are checked like `download` does: a truncated or broken file is queued again
+  const fresh: JobRecord[] = []
+  for (const record of records) {
+    if (!(await isComplete(manifest, record, opts))) fresh.push(record)
+  }
+
+  if (fresh.length === 0) {
+    log.info(`${entry.name}: no new episodes`)
+    return { queued: 0, failed: 0 }
+  }
+  log.info(`${entry.name}: ${fresh.length} new episode(s)`)
+  const failures = await runJobs(manifest, fresh, opts)
+  const done = fresh.filter((r) => manifest.get(r.key)?.status === "done")
+  try {
+    await writeMetadata(details, provider.name, done, entry.template)
+  } catch (err) {
+    log.warn(`Could not write metadata: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  printFailureSummary(failures)
+  return { queued: fresh.length, failed: failures.length }
+}
+
+async function runOnce(opts: RunJobsOptions): Promise<void> {
+  const entries = await loadWatchlist()
+  if (entries.length === 0) {
+    log.info("Not watching anything.")
+    return
+  }
+
+  for (const entry of entries) {
+    const watch = watchKey(entry)
+    try {
+      const { queued } = await checkEntry(entry, opts)
+      entry.lastQueued = queued
+      if (isJsonOutput()) printEvent({ event: "checked", watch, name: entry.name, queued })
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err)
+      log.error(`${entry.name}: check failed: ${error}`)
+      if (isJsonOutput()) printEvent({ event: "checked", watch, name: entry.name, queued: 0, error })
+    }
+    entry.lastCheckedAt = new Date().toISOString()
+  }
+
+  // Re-read so entries added or removed while downloading are kept
+  const latest = await loadWatchlist()
+  const checked = new Map(entries.map((e) => [watchKey(e), e]))
+  await saveWatchlist(
+    latest.map((e) => {
+      const c = checked.get(watchKey(e))
+      return c ? { ...e, lastCheckedAt: c.lastCheckedAt, lastQueued: c.lastQueued } : e
+    })
+  )
+}
+
+export async function cmdWatch(provider: Provider, argsv: string[]): Promise<void> {
+  const { action, rest } = getSubcommand(argsv, "list")
+
+  switch (action) {
+    case "add":
+      await addEntry(provider, parseOptions(watchAddCommand, rest))
+      break
+    case "remove":
+      await removeEntry(provider, parseOptions(watchRemoveCommand, rest))
+      break
+    case "list":
+      parseOptions(watchListCommand, rest)
+      printEntries(await loadWatchlist())
+      break
+    case "run": {
+      const args = parseOptions(watchRunCommand, rest)
+      const opts = parseRunJobsOptions(args)
+      // New episodes are the whole point of a check, so episode lists are always re-fetched
+      if (getCacheMode() === "use") setCacheMode("refresh")
+
+      // --once: check every title a single time and exit (for cron)
+      if (args.once) {
+        await runOnce(opts)
+        break
+      }
+      const intervalMs = args.interval ?? DEFAULT_INTERVAL_MS
+      for (;;) {
+        await runOnce(opts)
+        log.info(`Next check at ${new Date(Date.now() + intervalMs).toISOString()}`)
+        await sleep(intervalMs)
+      }
+    }
+    default:
+      throw new UsageError(`watch: unknown action ${action} (expected add, remove, list or run)`, "watch")
+  }
+}
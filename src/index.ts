@@ -7,99 +7,138 @@
 //   bun run index.ts <command> [--provider <name>] [options]
 //
 // Providers:
-//   yopflix (default), frenchstream (alias: fs)
+//   yopflix (default), frenchstream (alias: fs), all (search and download only)
 //
-// Commands:
-//   search   --query <text> [--limit 20]
-//   info     --titleId <id>
-//   list     --titleId <id>
-//   download [--titleId <id> | --query <text>] [--season N] [--episode 1,2] [--max N] [--outDir DIR]
-//   help     Show this help message
+// Commands (run `help <command>` for options):
+//   search, info, list, download (default), jobs [list|retry], watch add|remove|list|run,
+//   cache [info|clear], mirrors [list|check|reset], config [show], serve, play, stream,
+//   verify, help [command]
+//
+// Options are declared per command in src/commands/*.ts; global options (--provider,
+// --profile, --no-cache, --refresh, --proxy, --timeout, --rateLimit, --json) are in src/commands/options.ts.
 
-import { getCommandAndArgv, parseArgs } from "./utils/args.ts"
-import { getProvider, listProviders } from "./providers/index.ts"
+import { getCommandAndArgv, parseOptions, setArgDefaults, setGlobalOptions, UsageError } from "./utils/args.ts"
+import { getProvider } from "./providers/index.ts"
+import { ALL_PROVIDERS } from "./providers/all.ts"
 import { cmdSearch } from "./commands/search.ts"
 import { cmdInfo } from "./commands/info.ts"
 import { cmdList } from "./commands/list.ts"
-import { cmdDownload } from "./commands/download.ts"
-
-function printHelp() {
-  const providerList = listProviders().join(", ")
-  console.log(
-    [
-      "Usage:",
-      "  bun run index.ts <command> [--provider <name>] [options]",
-      "",
-      `Available providers: ${providerList}`,
-      "",
-      "Commands:",
-      "  search   --query <text> [--limit 20]",
-      "  info     --titleId <id>",
-      "  list     --titleId <id>",
-      "  download [--titleId <id> | --query <text>] [--season N] [--episode 1,2] [--max N] [--outDir DIR]",
-      "",
-      "Examples:",
-      "  # Search with default provider (yopflix)",
-      "  bun run index.ts search --query psych",
-      "",
-      "  # Search with French Stream provider",
-      "  bun run index.ts search --provider frenchstream --query \"loups garous\"",
-      "",
-      "  # List episodes from French Stream (using path-based ID)",
-      "  bun run index.ts list --provider fs --titleId \"/s-tv/15123579-loups-garous-saison-2-2024.html\"",
-      "",
-      "  # Download from French Stream",
-      "  bun run index.ts download --provider fs --query \"loups garous\" --season 2 --max 1",
-      "",
-      "If no command is provided, 'download' is assumed.",
-    ].join("\n")
-  )
-}
+import { cmdDownload, downloadCommand } from "./commands/download.ts"
+import { cmdJobs } from "./commands/jobs.ts"
+import { cmdWatch } from "./commands/watch.ts"
+import { cmdCache } from "./commands/cache.ts"
+import { cmdMirrors } from "./commands/mirrors.ts"
+import { cmdConfig } from "./commands/config.ts"
+import { cmdServe } from "./commands/serve.ts"
+import { cmdPlay, cmdStream } from "./commands/play.ts"
+import { cmdVerify } from "./commands/verify.ts"
+import { cmdHelp, commandNames, printCommandHelp, printHelp } from "./commands/help.ts"
+import { GLOBAL_OPTIONS } from "./commands/options.ts"
+import { configArgDefaults, loadConfig } from "./utils/config.ts"
+import { setCacheMode } from "./utils/cache.ts"
+import { configureHttp } from "./utils/http.ts"
+import { parseHostLimits } from "./utils/queue.ts"
+import { isJsonOutput, printJson, setJsonOutput } from "./utils/output.ts"
 
 async function main() {
-  const { command, argsv } = getCommandAndArgv()
-  const args = parseArgs(argsv)
+  setGlobalOptions(GLOBAL_OPTIONS)
+  // Flags before the command may belong to download, the default command
+  const { command, argsv } = getCommandAndArgv({ ...GLOBAL_OPTIONS, ...downloadCommand.options })
 
-  // Extract provider from args
-  const providerName = typeof args.provider === "string" ? args.provider : "yopflix"
-  const provider = getProvider(providerName)
+  try {
+    // Config values (and the --profile section) become the defaults every command falls back to;
+    // command options are checked later by each command
+    const globalCommand = { command, summary: "", options: GLOBAL_OPTIONS }
+    const { profile, json } = parseOptions(globalCommand, argsv, { allowUnknown: true, defaults: false })
+    setJsonOutput(json === true)
+    setArgDefaults(configArgDefaults(await loadConfig(profile)))
+    const globals = parseOptions(globalCommand, argsv, { allowUnknown: true })
 
-  // Remove --provider from argsv for subcommands
-  const cleanArgsv = argsv.filter((arg, i) => {
-    if (arg === "--provider") return false
-    if (i > 0 && argsv[i - 1] === "--provider") return false
-    return true
-  })
+    if (globals.help && command !== "help") {
+      printCommandHelp(command)
+      return
+    }
+
+    const providerName = globals.provider ?? "yopflix"
+    const provider = getProvider(providerName)
+    // --provider all is only meaningful where a search picks the title
+    const searchProvider = providerName === ALL_PROVIDERS ? ALL_PROVIDERS : provider
+    if (providerName === ALL_PROVIDERS && !["search", "download"].includes(command)) {
+      throw new UsageError(`--provider ${ALL_PROVIDERS} is only supported by search and download`)
+    }
+
+    // --no-cache bypasses the response cache; --refresh re-fetches and stores fresh responses
+    if (globals["no-cache"] === true) setCacheMode("off")
+    else if (globals.refresh === true) setCacheMode("refresh")
+
+    const rateLimits = parseHostLimits(globals.rateLimit)
+    configureHttp({
+      ...(globals.proxy ? { proxy: globals.proxy } : {}),
+      ...(globals.timeout ? { timeoutMs: globals.timeout } : {}),
+      ...(rateLimits ? { rateLimits } : {}),
+    })
 
-  try {
     switch (command) {
       case "search":
-        await cmdSearch(provider, cleanArgsv)
+        await cmdSearch(searchProvider, argsv)
         break
       case "info":
-        await cmdInfo(provider, cleanArgsv)
+        await cmdInfo(provider, argsv)
         break
       case "list":
-        await cmdList(provider, cleanArgsv)
+        await cmdList(provider, argsv)
         break
       case "download":
-        await cmdDownload(provider, cleanArgsv)
+        await cmdDownload(searchProvider, argsv)
+        break
+      case "jobs":
+        await cmdJobs(argsv)
+        break
+      case "watch":
+        await cmdWatch(provider, argsv)
+        break
+      case "cache":
+        await cmdCache(argsv)
+        break
+      case "mirrors":
+        await cmdMirrors(argsv)
+        break
+      case "config":
+        await cmdConfig(argsv)
+        break
+      case "serve":
+        await cmdServe(provider, argsv)
+        break
+      case "play":
+        await cmdPlay(provider, argsv)
+        break
+      case "stream":
+        await cmdStream(provider, argsv)
+        break
+      case "verify":
+        await cmdVerify(argsv)
         break
       case "help":
-        printHelp()
+        cmdHelp(argsv)
         break
-      default:
-        if (command.startsWith("--")) {
-          // No command provided, treat as download with args
-          await cmdDownload(provider, [command, ...cleanArgsv])
-        } else {
-          console.error(`Unknown command: ${command}`)
-          printHelp()
-          process.exit(1)
-        }
+      default: {
+        const message = `Unknown command: ${command} (available: ${commandNames().join(", ")})`
+        if (isJsonOutput()) throw new UsageError(message)
+        console.error(message)
+        printHelp()
+        process.exit(1)
+      }
     }
   } catch (err) {
-    console.error(err instanceof Error ? err.message : String(err))
+    const message = err instanceof Error ? err.message : String(err)
+    if (isJsonOutput()) {
+      printJson({ error: message, usage: err instanceof UsageError })
+      process.exit(1)
+    }
+    console.error(message)
+    if (err instanceof UsageError && err.command) {
+      console.error(`Run 'bun run index.ts help ${err.command}' for usage.`)
+    }
     process.exit(1)
   }
 }
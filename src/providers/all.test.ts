@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test"
+import type { Title } from "../types.ts"
+import type { Provider } from "./base.ts"
+import { formatMatches, mergeResults, normalizeTitleName } from "./all.ts"
+
+function fakeProvider(name: string): Provider {
+  const unused = () => Promise.reject(new Error("not used"))
+  return { name, search: unused, getDetails: unused, getEpisodes: unused }
+}
+
+const yop = fakeProvider("yopflix")
+const fs = fakeProvider("frenchstream")
+
+const series = (id: number, name: string, year?: number): Title => ({ id, name, year, type: "series" })
+
+describe("normalizeTitleName", () => {
+  test("ignores case, accents, punctuation and season suffixes", () => {
+    expect(normalizeTitleName("Loups-Garous - Saison 2")).toBe("loups garous")
+    expect(normalizeTitleName("Loups Garous")).toBe("loups garous")
+    expect(normalizeTitleName("Élite: Season 10")).toBe("elite")
+    expect(normalizeTitleName("Élite saison3")).toBe("elite")
+    expect(normalizeTitleName("Law & Order")).toBe("law and order")
+  })
+
+  test("keeps a season word that is not a suffix", () => {
+    expect(normalizeTitleName("Saison 1 de la vie")).toBe("saison 1 de la vie")
+  })
+})
+
+describe("mergeResults", () => {
+  test("merges titles across season suffixes and providers, keeping the first match per provider", () => {
+    const merged = mergeResults([
+      { provider: yop, results: [series(3235, "Loups-Garous", 2024)] },
+      {
+        provider: fs,
+        results: [series(11, "Loups Garous - Saison 1"), series(12, "Loups Garous - Saison 2"), series(13, "Psych")],
+      },
+    ])
+    expect(merged.map((t) => [t.name, formatMatches(t)])).toEqual([
+      ["Loups-Garous", "yopflix:3235 frenchstream:11"],
+      ["Psych", "frenchstream:13"],
+    ])
+  })
+
+  test("keeps titles of a different type or year apart", () => {
+    const merged = mergeResults([
+      { provider: yop, results: [series(1, "Dune", 2021), { id: 2, name: "Dune", type: "movie", year: 2021 }] },
+      { provider: fs, results: [series(3, "Dune", 1984), series(4, "Dune")] },
+    ])
+    expect(merged.map(formatMatches)).toEqual(["yopflix:1 frenchstream:4", "frenchstream:3", "yopflix:2"])
+  })
+
+  test("fills in a missing year and poster from later providers", () => {
+    const [merged] = mergeResults([
+      { provider: yop, results: [series(1, "Psych")] },
+      { provider: fs, results: [{ ...series(9, "psych", 2006), posterUrl: "https://img/psych.jpg" }] },
+    ])
+    expect(merged).toMatchObject({ id: 1, year: 2006, posterUrl: "https://img/psych.jpg" })
+  })
+
+  test("orders by best rank on any provider, then by how many providers carry the title", () => {
+    const merged = mergeResults([
+      { provider: yop, results: [series(1, "Monk"), series(2, "Psych")] },
+      { provider: fs, results: [series(3, "Psych"), series(4, "House")] },
+    ])
+    expect(merged.map((t) => t.name)).toEqual(["Psych", "Monk", "House"])
+  })
+})
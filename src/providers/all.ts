@@ -0,0 +1,128 @@
+// `--provider all`: search every provider at once and merge the results
+
+import type { Title, TitleDetails } from "../types.ts"
+import type { Provider } from "./base.ts"
+import { providers } from "./index.ts"
+import { log } from "../utils/log.ts"
+import { applyLanguagePreference } from "../utils/language.ts"
+
+export const ALL_PROVIDERS = "all"
+
+export interface ProviderMatch {
+  provider: Provider
+  title: Title
+}
+
+// One title as carried by one or more providers (first match per provider)
+export interface MergedTitle extends Title {
+  matches: ProviderMatch[]
+}
+
+export function uniqueProviders(): Provider[] {
+  return [...new Set(Object.values(providers))]
+}
+
+// "Loups-Garous - Saison 2" and "Loups Garous" compare equal: accents, punctuation and
+// per-season suffixes (French Stream lists one result per season) are ignored
+export function normalizeTitleName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s*[-–:]?\s*(saison|season)\s*\d+\s*$/i, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+// Same normalised name and type; years must agree when both sides have one
+function sameTitle(a: Title, b: Title): boolean {
+  if (a.type !== b.type || normalizeTitleName(a.name) !== normalizeTitleName(b.name)) return false
+  return !a.year || !b.year || a.year === b.year
+}
+
+export function mergeResults(perProvider: Array<{ provider: Provider; results: Title[] }>): MergedTitle[] {
+  const merged: Array<MergedTitle & { rank: number }> = []
+  for (const { provider, results } of perProvider) {
+    results.forEach((title, rank) => {
+      const existing = merged.find((m) => sameTitle(m, title))
+      if (!existing) {
+        merged.push({ ...title, matches: [{ provider, title }], rank })
+        return
+      }
+      if (!existing.matches.some((m) => m.provider === provider)) existing.matches.push({ provider, title })
+      existing.year ??= title.year
+      existing.posterUrl ??= title.posterUrl
+      existing.rank = Math.min(existing.rank, rank)
+    })
+  }
+  // Best rank on any provider first; titles several providers agree on win ties
+  return merged
+    .sort((a, b) => a.rank - b.rank || b.matches.length - a.matches.length)
+    .map(({ rank: _, ...title }) => title)
+}
+
+// Query every provider in parallel; a provider that fails is reported and skipped
+export async function searchAll(query: string, limit = 20): Promise<MergedTitle[]> {
+  const all = uniqueProviders()
+  const settled = await Promise.allSettled(all.map((p) => p.search(query, limit)))
+  const perProvider: Array<{ provider: Provider; results: Title[] }> = []
+  settled.forEach((result, i) => {
+    const provider = all[i]!
+    if (result.status === "fulfilled") {
+      perProvider.push({ provider, results: result.value })
+    } else {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason)
+      log.warn(`${provider.name}: search failed: ${reason}`)
+    }
+  })
+  return mergeResults(perProvider).slice(0, limit)
+}
+
+export function formatMatches(title: MergedTitle): string {
+  return title.matches.map((m) => `${m.provider.name}:${m.title.id}`).join(" ")
+}
+
+export interface MatchScore {
+  provider: Provider
+  details: TitleDetails
+  wanted: number // Episodes with a source in the first wanted language
+  available: number // Episodes playable with the language preference (all episodes without --lang)
+}
+
+// Fetch every provider's details and pick the one that can deliver the most: first by
+// episodes in the preferred language, then in any wanted language, then registry order
+export async function pickProvider(
+  title: MergedTitle,
+  opts?: { languages?: string[]; seasons?: number[] }
+): Promise<MatchScore> {
+  const settled = await Promise.allSettled(title.matches.map((m) => m.provider.getDetails(m.title.id)))
+  const scores: MatchScore[] = []
+  settled.forEach((result, i) => {
+    const { provider } = title.matches[i]!
+    if (result.status === "rejected") {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason)
+      log.warn(`${provider.name}: could not load ${title.name}: ${reason}`)
+      return
+    }
+    const details = result.value
+    const seasons = opts?.seasons
+    const episodes = seasons ? details.episodes.filter((ep) => ep.season !== undefined && seasons.includes(ep.season)) : details.episodes
+    const languages = opts?.languages
+    const preferred = languages?.[0]
+    scores.push({
+      provider,
+      details,
+      wanted: preferred ? episodes.filter((ep) => ep.sources.some((s) => s.language === preferred)).length : episodes.length,
+      available: languages ? episodes.filter((ep) => applyLanguagePreference(ep, languages)).length : episodes.length,
+    })
+  })
+
+  for (const s of scores) {
+    const lang = opts?.languages?.[0] ? `, ${s.wanted} in ${opts.languages[0]}` : ""
+    log.info(`  ${s.provider.name}: ${s.available} episode(s)${lang}`)
+  }
+  const best = [...scores].sort((a, b) => b.wanted - a.wanted || b.available - a.available)[0]
+  if (!best) throw new Error(`No provider could load ${title.name}`)
+  return best
+}
@@ -1,9 +1,11 @@
 // Provider interface for different streaming sources
 
 import type { Title, TitleDetails, Episode } from "../types.ts"
+import type { MirrorSet } from "../utils/mirrors.ts"
 
 export interface Provider {
   name: string
+  mirrors?: MirrorSet // Candidate domains for sites that move
   search(query: string, limit?: number): Promise<Title[]>
   getDetails(titleId: string | number): Promise<TitleDetails>
   getEpisodes(titleId: string | number): Promise<Episode[]>
@@ -1,14 +1,15 @@
 // French Stream provider implementation
 
 import type { Provider } from "./base.ts"
-import type { Title, TitleDetails, Episode } from "../types.ts"
+import type { Title, TitleDetails, Episode, EpisodeSource } from "../types.ts"
 import { fetchHtml, getJson, postForm } from "../utils/http.ts"
+import { HOST_ORDER, dedupeSources, detectHost, sortSourcesByHost } from "../utils/sources.ts"
+import { DEFAULT_LANGUAGES } from "../utils/language.ts"
+import { MirrorSet } from "../utils/mirrors.ts"
 
-const BASE_URL = "https://fs02.lol"
-
-// Preferred player order (first available wins)
-const PLAYER_ORDER = ["uqload", "vidzy", "voe", "netu", "premium"] as const
-type PlayerKey = (typeof PLAYER_ORDER)[number]
+// Known domains, newest first. The site moves every few weeks: add new ones here, in
+// FRENCHSTREAM_MIRRORS or in mirrors.json. Title ids are paths, so they survive a move.
+const MIRRORS = ["https://fs02.lol"]
 
 interface EpPlayerMap {
   uqload?: string
@@ -36,44 +37,114 @@ interface FilmApiResponse {
 
 export class FrenchStreamProvider implements Provider {
   name = "frenchstream"
+  // Real pages are DataLife Engine pages (dle_root, /engine/ajax/...); parked domains are not
+  readonly mirrors = new MirrorSet("frenchstream", MIRRORS, { probeMatch: /dle_root|\/engine\//, rateLimit: 2 })
 
   async search(query: string, limit = 20): Promise<Title[]> {
-    const html = await postForm(`${BASE_URL}/engine/ajax/search.php`, {
-      query,
-      page: "1",
-    })
+    const html = await this.mirrors.run((base) =>
+      postForm(`${base}/engine/ajax/search.php`, { query, page: "1" }, "search")
+    )
     return this.parseSearchResults(html).slice(0, limit)
   }
 
   async getDetails(titleId: string | number): Promise<TitleDetails> {
-    const path = String(titleId)
-    const url = path.startsWith("http") ? path : `${BASE_URL}${path}`
-    const html = await fetchHtml(url)
+    return this.mirrors.run((base) => this.loadDetails(base, this.toPath(String(titleId))))
+  }
+
+  private async loadDetails(base: string, path: string): Promise<TitleDetails> {
+    const html = await fetchHtml(`${base}${path}`, undefined, "title")
 
     const newsId = this.extractNewsId(path)
-    const seasonNumber = this.extractSeasonNumber(path)
+    const seasonPages = await this.findSeasonPages(html, path)
 
     let episodes: Episode[] = []
-    if (newsId) {
-      episodes = await this.fetchEpisodes(newsId, seasonNumber, path)
+    if (seasonPages.size > 0) {
+      episodes = await this.fetchAllSeasons(base, seasonPages)
+    } else if (newsId) {
+      episodes = await this.fetchEpisodes(base, newsId, this.extractSeasonNumber(path), path)
     }
     if (episodes.length === 0 && newsId) {
-      episodes = await this.fetchMoviePlayers(newsId, path)
+      episodes = await this.fetchMoviePlayers(base, newsId, path)
     }
     if (episodes.length === 0) {
       episodes = this.parseMoviePlayers(html)
     }
 
-    return this.parseMediaPage(html, path, episodes)
+    return this.parseMediaPage(base, html, path, episodes, seasonPages)
   }
 
   async getEpisodes(titleId: string | number): Promise<Episode[]> {
-    const path = String(titleId)
-    const newsId = this.extractNewsId(path)
-    if (!newsId) throw new Error(`Cannot extract news ID from path: ${path}`)
+    const path = this.toPath(String(titleId))
+    if (!this.extractNewsId(path)) throw new Error(`Cannot extract news ID from path: ${path}`)
+
+    const details = await this.getDetails(path)
+    return details.episodes
+  }
+
+  private toPath(idOrUrl: string): string {
+    if (idOrUrl.startsWith("http")) {
+      try {
+        return new URL(idOrUrl).pathname
+      } catch {
+        return idOrUrl
+      }
+    }
+    return idOrUrl.startsWith("/") ? idOrUrl : `/${idOrUrl}`
+  }
+
+  // "/s-tv/15123579-loups-garous-saison-2-2024.html" -> "loups-garous"
+  private extractSeriesSlug(path: string): string | null {
+    const file = path.split("/").pop() ?? ""
+    const match = file.match(/^\d+-(.+?)-saison-\d+/i)
+    return match?.[1]?.toLowerCase() ?? null
+  }
+
+  // Collect the pages of every season of the series, keyed by season number.
+  // Sibling seasons are linked from the media page; search is used as a fallback
+  // when the page only links to itself.
+  private async findSeasonPages(html: string, path: string): Promise<Map<number, string>> {
+    const slug = this.extractSeriesSlug(path)
+    const pages = new Map<number, string>()
+    if (!slug) return pages
+
+    pages.set(this.extractSeasonNumber(path), path)
+
+    const addCandidate = (candidate: string) => {
+      const candidatePath = this.toPath(candidate)
+      if (this.extractSeriesSlug(candidatePath) !== slug) return
+      const season = this.extractSeasonNumber(candidatePath)
+      if (!pages.has(season)) pages.set(season, candidatePath)
+    }
+
+    const linkRegex = /href=['"]([^'"]*-saison-\d+[^'"]*\.html)['"]/gi
+    let match
+    while ((match = linkRegex.exec(html)) !== null) {
+      if (match[1]) addCandidate(match[1])
+    }
 
-    const seasonNumber = this.extractSeasonNumber(path)
-    return this.fetchEpisodes(newsId, seasonNumber, path)
+    if (pages.size === 1) {
+      const query = slug.replace(/-/g, " ")
+      const results = await this.search(query, 50).catch(() => [] as Title[])
+      for (const r of results) addCandidate(String(r.id))
+    }
+
+    return pages
+  }
+
+  private async fetchAllSeasons(base: string, seasonPages: Map<number, string>): Promise<Episode[]> {
+    const episodes: Episode[] = []
+    const seasons = [...seasonPages.keys()].sort((a, b) => a - b)
+    for (const season of seasons) {
+      const seasonPath = seasonPages.get(season)!
+      const newsId = this.extractNewsId(seasonPath)
+      if (!newsId) continue
+      try {
+        episodes.push(...(await this.fetchEpisodes(base, newsId, season, seasonPath)))
+      } catch (err) {
+        console.warn(`Failed to fetch season ${season} (${seasonPath}): ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+    return episodes
   }
 
   private extractNewsId(path: string): string | null {
@@ -87,17 +158,14 @@ export class FrenchStreamProvider implements Provider {
     return match ? Number(match[1]) : 1
   }
 
-  private async fetchEpisodes(newsId: string, seasonNumber: number, refererPath: string): Promise<Episode[]> {
-    const referer = `${BASE_URL}${refererPath.startsWith("/") ? refererPath : `/${refererPath}`}`
-    const data = await getJson<EpDataResponse>(`${BASE_URL}/ep-data.php?id=${newsId}`, {
-      referer,
-    })
+  private async fetchEpisodes(base: string, newsId: string, seasonNumber: number, refererPath: string): Promise<Episode[]> {
+    const referer = `${base}${refererPath.startsWith("/") ? refererPath : `/${refererPath}`}`
+    const data = await getJson<EpDataResponse>(`${base}/ep-data.php?id=${newsId}`, { referer }, "episodes")
 
-    const episodes: Episode[] = []
-    const seen = new Set<string>()
+    const byEpisode = new Map<number, EpisodeSource[]>()
 
-    // Process each language track; VF overwrites VOSTFR for same episode
-    for (const lang of ["vostfr", "vf"] as const) {
+    // Collect every host of every language track; VF mirrors are listed first, then VOSTFR, then VO
+    for (const lang of DEFAULT_LANGUAGES) {
       const langData = data[lang]
       if (!langData) continue
 
@@ -105,58 +173,56 @@ export class FrenchStreamProvider implements Provider {
         const epNum = Number(epNumStr)
         if (!Number.isFinite(epNum) || epNum <= 0) continue
 
-        const url = this.pickPlayerUrl(players)
-        if (!url) continue
-
-        const key = `S${seasonNumber}E${epNum}`
-        seen.add(key)
-        const existing = episodes.findIndex((e) => e.season === seasonNumber && e.episode === epNum)
-        const ep: Episode = {
-          id: `${lang}-s${seasonNumber}e${epNum}`,
-          name: `S${String(seasonNumber).padStart(2, "0")} E${String(epNum).padStart(2, "0")}`,
-          season: seasonNumber,
-          episode: epNum,
-          url,
-          language: lang,
-        }
-
-        if (existing >= 0) {
-          episodes[existing] = ep // VF overwrites VOSTFR
-        } else {
-          episodes.push(ep)
-        }
+        const sources = this.collectPlayerSources(players, lang)
+        if (sources.length === 0) continue
+
+        byEpisode.set(epNum, [...(byEpisode.get(epNum) ?? []), ...sources])
       }
     }
 
+    const episodes: Episode[] = []
+    for (const [epNum, sources] of byEpisode) {
+      const deduped = dedupeSources(sources)
+      episodes.push({
+        id: `s${seasonNumber}e${epNum}`,
+        name: `S${String(seasonNumber).padStart(2, "0")} E${String(epNum).padStart(2, "0")}`,
+        season: seasonNumber,
+        episode: epNum,
+        sources: deduped,
+        language: deduped[0]?.language,
+      })
+    }
+
     episodes.sort((a, b) => (a.season ?? 0) - (b.season ?? 0) || (a.episode ?? 0) - (b.episode ?? 0))
     return episodes
   }
 
-  private async fetchMoviePlayers(newsId: string, refererPath: string): Promise<Episode[]> {
-    const referer = `${BASE_URL}${refererPath.startsWith("/") ? refererPath : `/${refererPath}`}`
-    const data = await getJson<FilmApiResponse>(`${BASE_URL}/engine/ajax/film_api.php?id=${newsId}`, { referer })
+  private async fetchMoviePlayers(base: string, newsId: string, refererPath: string): Promise<Episode[]> {
+    const referer = `${base}${refererPath.startsWith("/") ? refererPath : `/${refererPath}`}`
+    const data = await getJson<FilmApiResponse>(`${base}/engine/ajax/film_api.php?id=${newsId}`, { referer }, "episodes")
 
-    const url = this.pickFilmPlayerUrl(data.players ?? {})
-    if (!url) return []
+    const sources = this.collectFilmPlayerSources(data.players ?? {})
+    if (sources.length === 0) return []
 
-    return [{ id: "movie-vf", name: "VF", url, language: "vf" }]
+    return [{ id: "movie", name: "Movie", sources, language: sources[0]?.language }]
   }
 
-  private pickFilmPlayerUrl(players: Record<string, FilmPlayerEntry>): string | null {
-    for (const key of PLAYER_ORDER) {
-      const entry = players[key]
-      if (!entry) continue
-      const url = entry.vfq ?? entry.default
-      if (url && url.length > 0) return url
+  private collectFilmPlayerSources(players: Record<string, FilmPlayerEntry>): EpisodeSource[] {
+    const vf: EpisodeSource[] = []
+    const vostfr: EpisodeSource[] = []
+    for (const [key, entry] of Object.entries(players)) {
+      const vfUrl = entry.vfq ?? entry.default
+      if (vfUrl && vfUrl.length > 0) vf.push({ url: vfUrl, host: key, language: "vf" })
+      if (entry.vostfr && entry.vostfr.length > 0) vostfr.push({ url: entry.vostfr, host: key, language: "vostfr" })
     }
-    return null
+    return dedupeSources([...sortSourcesByHost(vf), ...sortSourcesByHost(vostfr)])
   }
 
   private parseMoviePlayers(html: string): Episode[] {
     const optionRegex =
       /<div[^>]*class=['"]option['"][^>]*data-url=['"]([^'"]+)['"][^>]*>(?:<span[^>]*>([^<]*)<\/span>)?/gi
 
-    const episodes: Episode[] = []
+    const sources: EpisodeSource[] = []
     let match
     while ((match = optionRegex.exec(html)) !== null) {
       const url = match[1]
@@ -164,53 +230,27 @@ export class FrenchStreamProvider implements Provider {
       if (!url) continue
 
       const lower = label.toLowerCase()
-      let language: Episode["language"]
+      let language: EpisodeSource["language"]
       if (lower.includes("vostfr") || lower.includes("vost")) language = "vostfr"
       else if (lower.includes("french") || lower.includes("vf")) language = "vf"
       else if (lower.includes("vo")) language = "vo"
 
-      const host = (() => {
-        try {
-          return new URL(url).hostname
-        } catch {
-          return ""
-        }
-      })()
-
-      episodes.push({
-        id: `movie-${host}-${episodes.length + 1}`,
-        name: label || "Movie",
-        url,
-        language,
-      })
+      sources.push({ url, host: detectHost(url), language })
     }
 
-    if (episodes.length === 0) return episodes
+    if (sources.length === 0) return []
 
-    const preferred = this.pickUrlByHostOrder(episodes)
-    return preferred ? [preferred] : episodes
+    const ordered = dedupeSources(sortSourcesByHost(sources))
+    return [{ id: "movie", name: "Movie", sources: ordered, language: ordered[0]?.language }]
   }
 
-  private pickUrlByHostOrder(episodes: Episode[]): Episode | null {
-    for (const key of PLAYER_ORDER) {
-      const match = episodes.find((ep) => {
-        try {
-          return new URL(ep.url).hostname.includes(key)
-        } catch {
-          return false
-        }
-      })
-      if (match) return match
+  private collectPlayerSources(players: EpPlayerMap, language: string): EpisodeSource[] {
+    const sources: EpisodeSource[] = []
+    for (const key of HOST_ORDER) {
+      const url = players[key]
+      if (url && url.length > 0) sources.push({ url, host: key, language })
     }
-    return episodes[0] ?? null
-  }
-
-  private pickPlayerUrl(players: EpPlayerMap): string | null {
-    for (const key of PLAYER_ORDER) {
-      const url = players[key as PlayerKey]
-      if (url && url.length > 0) return url
-    }
-    return null
+    return sources
   }
 
   private parseSearchResults(html: string): Title[] {
@@ -231,13 +271,20 @@ export class FrenchStreamProvider implements Provider {
 
       const type = rawTitle.toLowerCase().includes("saison") || path.includes("-saison-") ? "series" : "movie"
 
-      results.push({ id: path, name, year, type })
+      // Ids are kept domain-free so they stay valid when the site moves
+      results.push({ id: this.toPath(path), name, year, type })
     }
 
     return results
   }
 
-  private parseMediaPage(html: string, path: string, episodes: Episode[]): TitleDetails {
+  private parseMediaPage(
+    base: string,
+    html: string,
+    path: string,
+    episodes: Episode[],
+    seasonPages: Map<number, string>
+  ): TitleDetails {
     const titleMatch = html.match(/<h1[^>]*>([^<]+)<\/h1>/i) || html.match(/<title>[^<]*?([^<|]+)/i)
     let name =
       titleMatch?.[1]
@@ -251,13 +298,42 @@ export class FrenchStreamProvider implements Provider {
 
     name = name.replace(/\s*-?\s*saison\s*\d+/i, "").trim()
 
+    const meta = (prop: string) =>
+      html.match(new RegExp(`<meta[^>]*(?:property|name)=['"]${prop}['"][^>]*content=['"]([^'"]+)['"]`, "i"))?.[1]
+    const poster = meta("og:image")
+    const synopsis = meta("og:description") ?? meta("description")
+    // The year in a season page's path is that season's; the first season's is the show's
+    const firstSeasonPath = seasonPages.get(Math.min(...seasonPages.keys())) ?? path
+    const yearMatch = name.match(/\((\d{4})\)/) ?? firstSeasonPath.match(/-(\d{4})\.html$/)
+    name = name.replace(/\s*\(\d{4}\)\s*$/, "").trim()
+
+    const genres = new Set<string>()
+    for (const m of html.matchAll(/<a[^>]*href=['"][^'"]*\/genre[s]?\/[^'"]*['"][^>]*>([^<]+)<\/a>/gi)) {
+      const genre = m[1]?.trim()
+      if (genre) genres.add(decodeEntities(genre))
+    }
+
     return {
       id: path,
-      name,
+      name: decodeEntities(name),
+      year: yearMatch ? Number(yearMatch[1]) : undefined,
       type,
+      posterUrl: poster ? new URL(poster, base).toString() : undefined,
+      synopsis: synopsis ? decodeEntities(synopsis).trim() : undefined,
+      genres: genres.size > 0 ? [...genres] : undefined,
       episodes,
-      seasonCount: isSeries ? 1 : undefined,
+      seasonCount: isSeries ? Math.max(seasonPages.size, 1) : undefined,
       episodeCount: episodes.length,
     }
   }
 }
+
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#039;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+}
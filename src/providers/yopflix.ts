@@ -1,38 +1,66 @@
 // Yopflix provider implementation
 
 import type { Provider } from "./base.ts"
-import type { Title, TitleDetails, Episode, YopflixSearchResponse, YopflixTitleDetails, YopflixTitleVideo } from "../types.ts"
+import type {
+  Title,
+  TitleDetails,
+  Episode,
+  EpisodeSource,
+  YopflixSearchResponse,
+  YopflixTitleDetails,
+  YopflixTitleVideo,
+} from "../types.ts"
 import { getJson } from "../utils/http.ts"
-import { isUqloadEmbed, parseSeasonEpisode } from "../utils/download.ts"
+import { parseSeasonEpisode } from "../utils/download.ts"
+import { dedupeSources, detectHost, sortSourcesByHost } from "../utils/sources.ts"
+import { normalizeLanguage } from "../utils/language.ts"
+import { MirrorSet } from "../utils/mirrors.ts"
+
+// Known domains, newest first (override with YOPFLIX_MIRRORS or mirrors.json)
+const MIRRORS = ["https://yopflix.my"]
 
 export class YopflixProvider implements Provider {
   name = "yopflix"
+  // The search API answers JSON with a "results" list; parked domains do not
+  readonly mirrors = new MirrorSet("yopflix", MIRRORS, {
+    probePath: "/secure/search/a?limit=1",
+    probeMatch: /"results"/,
+    rateLimit: 4,
+  })
 
   async search(query: string, limit = 20): Promise<Title[]> {
-    const url = `https://yopflix.my/secure/search/${encodeURIComponent(query)}?limit=${encodeURIComponent(String(limit))}`
-    const json = await getJson<YopflixSearchResponse>(url)
+    const path = `/secure/search/${encodeURIComponent(query)}?limit=${encodeURIComponent(String(limit))}`
+    const json = await this.mirrors.run((base) => getJson<YopflixSearchResponse>(`${base}${path}`, undefined, "search"))
     if (json.status !== "success") throw new Error(`Search failed for query=${query}`)
     return (json.results ?? []).map((r) => ({
       id: r.id,
       name: r.name,
       year: r.year ?? undefined,
       type: r.is_series ? "series" : "movie",
+      posterUrl: r.poster ?? undefined,
     }))
   }
 
   async getDetails(titleId: string | number, titleName?: string): Promise<TitleDetails> {
     const qp = new URLSearchParams({ titleId: String(titleId) })
     if (titleName) qp.set("titleName", titleName)
-    const url = `https://yopflix.my/secure/titles/${titleId}?${qp.toString()}`
-    const details = await getJson<YopflixTitleDetails>(url)
+    const path = `/secure/titles/${titleId}?${qp.toString()}`
+    // The title endpoint carries the episode and video lists, so it expires like them
+    const details = await this.mirrors.run((base) => getJson<YopflixTitleDetails>(`${base}${path}`, undefined, "episodes"))
     const episodes = this.extractEpisodes(details)
+    const t = details.title
     return {
-      id: details.title.id,
-      name: details.title.name,
-      type: details.title.is_series ? "series" : "movie",
+      id: t.id,
+      name: t.name,
+      year: t.year ?? undefined,
+      type: t.is_series ? "series" : "movie",
+      posterUrl: t.poster ?? undefined,
+      fanartUrl: t.backdrop ?? undefined,
+      synopsis: t.description ?? undefined,
+      genres: t.genres?.map((g) => g.display_name ?? g.name),
       episodes,
-      seasonCount: details.title.season_count,
-      episodeCount: details.title.episode_count ?? episodes.length,
+      seasonCount: t.season_count,
+      episodeCount: t.episode_count ?? episodes.length,
     }
   }
 
@@ -47,18 +75,35 @@ export class YopflixProvider implements Provider {
     const nested = (t?.videos ?? []) as YopflixTitleVideo[]
     const all = [...direct, ...nested]
 
-    return all
-      .filter((v) => typeof v.url === "string" && isUqloadEmbed(v.url))
-      .map((v) => {
-        const { season, episode } = parseSeasonEpisode(v.name ?? "")
-        return {
-          id: v.id,
-          name: v.name,
-          url: v.url,
-          season,
-          episode,
-          language: v.language ?? undefined,
-        }
-      })
+    // Group every mirror of the same episode (or of the movie) into one entry
+    const grouped = new Map<string, Episode>()
+    for (const v of all) {
+      if (typeof v.url !== "string" || v.url.length === 0) continue
+      const { season, episode } = parseSeasonEpisode(v.name ?? "")
+      const key = season && episode ? `S${season}E${episode}` : v.name ?? String(v.id)
+      const source: EpisodeSource = { url: v.url, host: detectHost(v.url), language: normalizeLanguage(v.language ?? t?.language) }
+
+      const existing = grouped.get(key)
+      if (existing) {
+        existing.sources.push(source)
+      } else {
+        grouped.set(key, { id: v.id, name: v.name, season, episode, sources: [source] })
+      }
+    }
+
+    // Episode titles and plots, when the API includes the current season's episode list
+    const meta = new Map((t?.season?.episodes ?? []).map((e) => [`S${e.season_number}E${e.episode_number}`, e]))
+
+    return [...grouped.values()].map((ep) => {
+      const sources = dedupeSources(sortSourcesByHost(ep.sources))
+      const info = meta.get(`S${ep.season}E${ep.episode}`)
+      return {
+        ...ep,
+        sources,
+        language: sources[0]?.language,
+        title: info?.name ?? undefined,
+        synopsis: info?.description ?? undefined,
+      }
+    })
   }
 }
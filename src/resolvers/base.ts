@@ -0,0 +1,21 @@
+// Host resolver interface: turns an embed page URL into a playable stream
+
+export interface SubtitleTrack {
+  url: string // .vtt or .srt file
+  label?: string // Player label, e.g. "Français"
+  language?: string // ISO 639-1 code when the label or file name gives it away
+}
+
+export interface ResolvedEmbed {
+  url: string // Direct media URL or HLS playlist
+  headers: Record<string, string> // Headers the stream host expects (Referer, Origin, ...)
+  subtitles?: SubtitleTrack[]
+}
+
+export interface HostResolver {
+  name: string
+  matches(url: string): boolean
+  resolve(url: string): Promise<ResolvedEmbed>
+  // Headers for other URLs on the host (direct files, .html pages) that are passed through unresolved
+  hostHeaders?(url: string): Record<string, string> | undefined
+}
@@ -0,0 +1,54 @@
+// Helpers for pulling stream URLs and subtitle tracks out of (unpacked) player scripts
+
+import type { SubtitleTrack } from "./base.ts"
+import { subtitleLanguage } from "../utils/subtitles.ts"
+
+export function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return ""
+  }
+}
+
+export function findM3u8Url(script: string): string | null {
+  return script.match(/https?:\/\/[^\s"'<>]+\.m3u8[^\s"'<>]*/i)?.[0] ?? null
+}
+
+export function findMp4Url(script: string): string | null {
+  return script.match(/https?:\/\/[^\s"'<>]+\.mp4[^\s"'<>]*/i)?.[0] ?? null
+}
+
+// HLS is preferred over progressive MP4 when a player lists both
+export function findStreamUrl(script: string): string | null {
+  return findM3u8Url(script) ?? findMp4Url(script)
+}
+
+function jsProperty(obj: string, name: string): string | undefined {
+  const regex = new RegExp(`["']?${name}["']?\\s*:\\s*["']([^"']*)["']`, "i")
+  return obj.match(regex)?.[1]
+}
+
+// jwplayer `tracks: [{file: "...vtt", label: "French", kind: "captions"}, ...]`.
+// Thumbnail and chapter tracks are skipped; relative files resolve against the embed URL.
+export function findSubtitleTracks(script: string, baseUrl: string): SubtitleTrack[] {
+  const tracks: SubtitleTrack[] = []
+  for (const list of script.matchAll(/tracks\s*:\s*\[([\s\S]*?)\]/g)) {
+    for (const obj of (list[1] ?? "").match(/\{[^{}]*\}/g) ?? []) {
+      const file = jsProperty(obj, "file")
+      const kind = jsProperty(obj, "kind")?.toLowerCase() ?? "captions"
+      if (!file || (kind !== "captions" && kind !== "subtitles")) continue
+      if (!/\.(vtt|srt)(?:\?|$)/i.test(file)) continue
+
+      let url: string
+      try {
+        url = new URL(file, baseUrl).toString()
+      } catch {
+        continue
+      }
+      const label = jsProperty(obj, "label")
+      tracks.push({ url, label, language: subtitleLanguage(label, url) })
+    }
+  }
+  return tracks.filter((t, i) => tracks.findIndex((o) => o.url === t.url) === i)
+}
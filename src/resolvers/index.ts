@@ -0,0 +1,73 @@
+// Host resolver registry
+
+import type { HostResolver, ResolvedEmbed } from "./base.ts"
+import { UqloadResolver } from "./uqload.ts"
+import { VidzyResolver } from "./vidzy.ts"
+import { VoeResolver } from "./voe.ts"
+import { NetuResolver } from "./netu.ts"
+import { log } from "../utils/log.ts"
+import { CACHE_TTL_MS, cacheKey } from "../utils/http.ts"
+import { deleteCache, readCache, writeCache } from "../utils/cache.ts"
+
+export type { HostResolver, ResolvedEmbed } from "./base.ts"
+
+export const resolvers: HostResolver[] = [
+  new UqloadResolver(),
+  new VidzyResolver(),
+  new VoeResolver(),
+  new NetuResolver(),
+]
+
+export function findResolver(url: string): HostResolver | undefined {
+  return resolvers.find((r) => r.matches(url))
+}
+
+// Signed stream URLs carry their expiry as a unix timestamp (`?e=`, `expires=`, ...)
+const EXPIRY_PARAMS = ["expires", "expire", "expiry", "exp", "e"]
+const EXPIRY_MARGIN_MS = 2 * 60 * 1000
+
+function streamExpiry(url: string): number | undefined {
+  try {
+    const params = new URL(url).searchParams
+    for (const name of EXPIRY_PARAMS) {
+      const value = params.get(name)
+      if (value && /^\d{10}$/.test(value)) return Number(value) * 1000
+    }
+  } catch {}
+  return undefined
+}
+
+// A resolution is cached for the embed TTL, and never past the stream URL's own expiry
+async function cacheResolution(url: string, resolved: ResolvedEmbed): Promise<void> {
+  const ttlEnd = Date.now() + CACHE_TTL_MS.embed
+  const expiry = streamExpiry(resolved.url)
+  const expiresAt = expiry === undefined ? ttlEnd : Math.min(ttlEnd, expiry - EXPIRY_MARGIN_MS)
+  await writeCache(cacheKey("RESOLVE", url), JSON.stringify(resolved), expiresAt)
+}
+
+// Resolve an embed URL to its stream. URLs no resolver understands are returned as-is, with
+// the headers their host expects, so a generic backend such as yt-dlp can still try them.
+export async function resolveEmbed(url: string): Promise<ResolvedEmbed> {
+  const resolver = findResolver(url)
+  if (!resolver) {
+    const headers = resolvers.map((r) => r.hostHeaders?.(url)).find((h) => h !== undefined)
+    return { url, headers: headers ?? {} }
+  }
+
+  const cached = await readCache(cacheKey("RESOLVE", url))
+  if (cached !== null) {
+    const resolved = JSON.parse(cached) as ResolvedEmbed
+    log.info(`Resolved ${resolver.name} embed (cached) -> ${resolved.url}`)
+    return resolved
+  }
+
+  const resolved = await resolver.resolve(url)
+  log.info(`Resolved ${resolver.name} embed -> ${resolved.url}`)
+  await cacheResolution(url, resolved)
+  return resolved
+}
+
+// Drop a cached resolution, e.g. after its stream failed to download
+export async function forgetResolution(url: string): Promise<void> {
+  await deleteCache(cacheKey("RESOLVE", url))
+}
@@ -0,0 +1,36 @@
+// netu resolver (netu.tv / hqq / waaw embeds). The player script is usually packed;
+// the stream is a jwplayer `file` or a bare m3u8/mp4 URL inside it.
+
+import type { HostResolver, ResolvedEmbed } from "./base.ts"
+import { fetchHtml } from "../utils/http.ts"
+import { unpackAll } from "./unpack.ts"
+import { findStreamUrl, hostnameOf } from "./extract.ts"
+
+const HOST_PATTERNS = ["netu", "hqq", "waaw"]
+
+function findPlayerFile(script: string): string | null {
+  const file = script.match(/file\s*:\s*["'](https?:\/\/[^"']+)["']/)?.[1]
+  return file ?? findStreamUrl(script)
+}
+
+export class NetuResolver implements HostResolver {
+  name = "netu"
+
+  matches(url: string): boolean {
+    const hostname = hostnameOf(url)
+    return HOST_PATTERNS.some((p) => hostname.includes(p))
+  }
+
+  async resolve(url: string): Promise<ResolvedEmbed> {
+    const origin = new URL(url).origin
+    const html = await fetchHtml(url, { referer: `${origin}/` })
+
+    const candidates = [...unpackAll(html), html]
+    const streamUrl = candidates.map(findPlayerFile).find((u) => u !== null)
+    if (!streamUrl) {
+      throw new Error(`No stream source found in netu embed: ${url}`)
+    }
+
+    return { url: streamUrl, headers: { Referer: `${origin}/`, Origin: origin } }
+  }
+}
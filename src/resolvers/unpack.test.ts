@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test"
+import { unpack, unpackAll, unpackFirst } from "./unpack.ts"
+
+// The packer's own decoder, as it appears in host pages
+const DECODER =
+  "eval(function(p,a,c,k,e,d){e=function(c){return c.toString(36)};if(!''.replace(/^/,String)){while(c--)" +
+  "{d[e(c)]=k[c]||e(c)}k=[function(e){return d[e]}];e=function(){return'\\\\w+'};c=1};while(c--){if(k[c])" +
+  "{p=p.replace(new RegExp('\\\\b'+e(c)+'\\\\b','g'),k[c])}}return p}"
+
+// jwplayer setup of an uqload embed, packed with radix 36
+const UQLOAD_PACKED =
+  `${DECODER}('7("8").9({a:[{0:"1://2.3.4/b/c.d"}],e:"1://2.3.4/f/g/5/h.i",j:"6%",k:"6%",l:"m",n:"o.p",` +
+  `q:"r",s:[{0:"/t/5/u.v",w:"x",y:"z"}]});',36,36,'file|https|m180|uqload|cx|00123|100|jwplayer|vplayer|` +
+  `setup|sources|3rfkq2wmbmw2joqc|v|mp4|image|i|05|thumb|jpg|width|height|stretching|uniform|duration|1403|` +
+  `04|preload|none|tracks|srt|fr|vtt|label|French|kind|captions'.split('|'),0,{}))`
+
+describe("unpackFirst", () => {
+  test("unpacks a packed jwplayer setup", () => {
+    const html = `<html><body><div id="vplayer"></div><script>${UQLOAD_PACKED}</script></body></html>`
+    const unpacked = unpackFirst(html)
+    expect(unpacked).toStartWith('jwplayer("vplayer").setup({sources:[{file:"https://m180.uqload.cx/')
+    expect(unpacked).toContain('file:"https://m180.uqload.cx/3rfkq2wmbmw2joqc/v.mp4"')
+    expect(unpacked).toContain('file:"/srt/00123/fr.vtt",label:"French",kind:"captions"')
+  })
+
+  test("returns null for a page without packed script", () => {
+    expect(unpackFirst('<script>jwplayer("vplayer").setup({file:"https://a.b/c.mp4"})</script>')).toBeNull()
+    expect(unpackFirst("")).toBeNull()
+  })
+})
+
+describe("unpackAll", () => {
+  test("returns every packed script in document order", () => {
+    const second = `${DECODER}('0 1=\\'2\\'',36,3,'var|title|Psych'.split('|'),0,{}))`
+    expect(unpackAll(`<script>${UQLOAD_PACKED}</script><script>${second}</script>`)).toEqual([
+      expect.stringContaining("3rfkq2wmbmw2joqc/v.mp4"),
+      "var title='Psych'",
+    ])
+  })
+})
+
+describe("unpack", () => {
+  test("decodes base-36 keywords", () => {
+    const keywords = Array.from({ length: 36 }, (_, i) => `w${i}`)
+    expect(unpack("a.b(9,z)", 36, 36, keywords)).toBe("w10.w11(w9,w35)")
+  })
+
+  test("decodes base-62 keywords, upper case letters coming after the lower case ones", () => {
+    const keywords = Array.from({ length: 64 }, (_, i) => `w${i}`)
+    expect(unpack("a.A(Z,z,10,11)", 62, 64, keywords)).toBe("w10.w36(w61,w35,w62,w63)")
+  })
+
+  test("keeps words that are not a code in the radix", () => {
+    const keywords = Array.from({ length: 36 }, (_, i) => `w${i}`)
+    expect(unpack("1x 1 A 01 z", 10, 36, keywords)).toBe("1x w1 A 01 z")
+    expect(unpack("a A Z", 36, 36, keywords)).toBe("w10 A Z")
+  })
+
+  test("keeps words without a keyword", () => {
+    // Empty slots are words the packer left as they were; indexes past `count` are not keywords
+    expect(unpack("0 1 2 3", 36, 3, ["var", "", "x", "y"])).toBe("var 1 x 3")
+  })
+})
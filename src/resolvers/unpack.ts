@@ -0,0 +1,48 @@
+// Dean Edwards p,a,c,k,e,d unpacker, shared by the host resolvers
+
+const PACKED_REGEX =
+  /eval\(function\(p,a,c,k,e,[dr]\)\{[\s\S]*?\}\(\s*'((?:[^'\\]|\\.)*)'\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*'((?:[^'\\]|\\.)*)'\.split\('\|'\)/g
+
+const ALPHABET_62 = "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ"
+
+// Inverse of the packer's e(c), for the exact words it produces: lower case digits up to base 36,
+// upper case after that, and no leading zero. Anything else is left alone, like the packer's own replace.
+function unbase(word: string, radix: number): number {
+  if (word.length > 1 && word.startsWith("0")) return NaN
+  let n = 0
+  for (const ch of word) {
+    const digit = ALPHABET_62.indexOf(ch)
+    if (digit < 0 || digit >= radix) return NaN
+    n = n * radix + digit
+  }
+  return n
+}
+
+function unescapeJsString(s: string): string {
+  return s.replace(/\\(['"\\])/g, "$1")
+}
+
+export function unpack(payload: string, radix: number, count: number, keywords: string[]): string {
+  const dictionary = keywords.slice(0, count)
+  return payload.replace(/\b\w+\b/g, (word) => {
+    const idx = unbase(word, radix)
+    if (!Number.isFinite(idx)) return word
+    const replacement = dictionary[idx]
+    return replacement && replacement.length > 0 ? replacement : word
+  })
+}
+
+// Every packed script in the page, unpacked, in document order
+export function unpackAll(html: string): string[] {
+  const results: string[] = []
+  for (const match of html.matchAll(PACKED_REGEX)) {
+    const [, payload, radix, count, keywords] = match
+    if (payload === undefined || keywords === undefined) continue
+    results.push(unpack(unescapeJsString(payload), Number(radix), Number(count), unescapeJsString(keywords).split("|")))
+  }
+  return results
+}
+
+export function unpackFirst(html: string): string | null {
+  return unpackAll(html)[0] ?? null
+}
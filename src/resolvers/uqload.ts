@@ -0,0 +1,45 @@
+// uqload resolver
+
+import type { HostResolver, ResolvedEmbed } from "./base.ts"
+import { fetchHtml } from "../utils/http.ts"
+import { unpackAll } from "./unpack.ts"
+import { findSubtitleTracks, findStreamUrl } from "./extract.ts"
+
+const HEADERS = { Referer: "https://uqload.is/", Origin: "https://uqload.is" }
+
+export class UqloadResolver implements HostResolver {
+  name = "uqload"
+
+  matches(url: string): boolean {
+    try {
+      const u = new URL(url)
+      return u.hostname.includes("uqload.") && (u.pathname.startsWith("/embed-") || /^\/[a-z0-9]+$/i.test(u.pathname))
+    } catch {
+      return false
+    }
+  }
+
+  hostHeaders(url: string): Record<string, string> | undefined {
+    try {
+      return new URL(url).hostname.includes("uqload.") ? HEADERS : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  async resolve(url: string): Promise<ResolvedEmbed> {
+    const html = await fetchHtml(url)
+    const scripts = unpackAll(html)
+    if (scripts.length === 0) {
+      throw new Error(`Could not deobfuscate uqload embed page: ${url}`)
+    }
+
+    const streamUrl = scripts.map(findStreamUrl).find((u) => u !== null)
+    if (!streamUrl) {
+      throw new Error(`No stream source found in uqload embed: ${url}`)
+    }
+
+    const subtitles = scripts.flatMap((script) => findSubtitleTracks(script, url))
+    return { url: streamUrl, headers: HEADERS, subtitles }
+  }
+}
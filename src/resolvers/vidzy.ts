@@ -0,0 +1,45 @@
+// vidzy resolver
+
+import type { HostResolver, ResolvedEmbed } from "./base.ts"
+import { fetchHtml } from "../utils/http.ts"
+import { unpackAll } from "./unpack.ts"
+import { findSubtitleTracks, findM3u8Url } from "./extract.ts"
+
+const HEADERS = { Referer: "https://vidzy.cc/", Origin: "https://vidzy.cc" }
+
+export class VidzyResolver implements HostResolver {
+  name = "vidzy"
+
+  matches(url: string): boolean {
+    try {
+      const u = new URL(url)
+      return u.hostname.includes("vidzy.") && u.pathname.startsWith("/embed-")
+    } catch {
+      return false
+    }
+  }
+
+  hostHeaders(url: string): Record<string, string> | undefined {
+    try {
+      return new URL(url).hostname.includes("vidzy.") ? HEADERS : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  async resolve(url: string): Promise<ResolvedEmbed> {
+    const html = await fetchHtml(url)
+    const scripts = unpackAll(html)
+    if (scripts.length === 0) {
+      throw new Error(`Could not deobfuscate vidzy embed page: ${url}`)
+    }
+
+    const m3u8 = scripts.map(findM3u8Url).find((u) => u !== null)
+    if (!m3u8) {
+      throw new Error(`No m3u8 source found in vidzy embed: ${url}`)
+    }
+
+    const subtitles = scripts.flatMap((script) => findSubtitleTracks(script, url))
+    return { url: m3u8, headers: HEADERS, subtitles }
+  }
+}
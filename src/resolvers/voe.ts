@@ -0,0 +1,78 @@
+// voe resolver. voe moves between many mirror domains and has changed its page format
+// several times; the known layouts are tried from newest to oldest.
+
+import type { HostResolver, ResolvedEmbed } from "./base.ts"
+import { fetchHtml } from "../utils/http.ts"
+import { findStreamUrl } from "./extract.ts"
+
+const JUNK_MARKERS = ["@$", "^^", "~@", "%?", "*~", "!!", "#&"]
+
+function rot13(s: string): string {
+  return s.replace(/[a-z]/gi, (c) => {
+    const base = c <= "Z" ? 65 : 97
+    return String.fromCharCode(((c.charCodeAt(0) - base + 13) % 26) + base)
+  })
+}
+
+function base64Decode(s: string): string {
+  return Buffer.from(s, "base64").toString("utf8")
+}
+
+// 2024+ layout: <script type="application/json">["<payload>"]</script>, decoded with
+// rot13 -> strip junk markers -> base64 -> shift chars by -3 -> reverse -> base64 -> JSON
+function decodeJsonPayload(html: string): string | null {
+  const raw = html.match(/<script[^>]*type=["']application\/json["'][^>]*>\s*\[\s*"([^"]+)"\s*\]\s*<\/script>/i)?.[1]
+  if (!raw) return null
+  try {
+    let s = rot13(raw)
+    for (const marker of JUNK_MARKERS) s = s.split(marker).join("")
+    s = base64Decode(s)
+    s = [...s].map((c) => String.fromCharCode(c.charCodeAt(0) - 3)).join("")
+    s = base64Decode([...s].reverse().join(""))
+    const data = JSON.parse(s) as { source?: string; direct_access_url?: string }
+    return data.source ?? data.direct_access_url ?? null
+  } catch {
+    return null
+  }
+}
+
+// Older layouts: 'hls': '<url or base64>' in a sources object, or a plain URL in the page
+function decodeLegacySources(html: string): string | null {
+  const hls = html.match(/['"]hls['"]\s*:\s*['"]([^'"]+)['"]/)?.[1]
+  if (hls) return hls.startsWith("http") ? hls : base64Decode(hls)
+  const mp4 = html.match(/['"]mp4['"]\s*:\s*['"]([^'"]+)['"]/)?.[1]
+  if (mp4) return mp4.startsWith("http") ? mp4 : base64Decode(mp4)
+  return findStreamUrl(html)
+}
+
+export class VoeResolver implements HostResolver {
+  name = "voe"
+
+  matches(url: string): boolean {
+    try {
+      return new URL(url).hostname.includes("voe")
+    } catch {
+      return false
+    }
+  }
+
+  async resolve(url: string): Promise<ResolvedEmbed> {
+    let pageUrl = url
+    let html = await fetchHtml(pageUrl)
+
+    // The embed often bounces to the current mirror domain through a JS redirect
+    const redirect = html.match(/window\.location\.href\s*=\s*['"](https?:\/\/[^'"]+)['"]/)?.[1]
+    if (redirect) {
+      pageUrl = redirect
+      html = await fetchHtml(pageUrl)
+    }
+
+    const streamUrl = decodeJsonPayload(html) ?? decodeLegacySources(html)
+    if (!streamUrl || !streamUrl.startsWith("http")) {
+      throw new Error(`No stream source found in voe embed: ${url}`)
+    }
+
+    const origin = new URL(pageUrl).origin
+    return { url: streamUrl, headers: { Referer: `${origin}/`, Origin: origin } }
+  }
+}
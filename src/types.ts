@@ -1,12 +1,20 @@
 // Shared type definitions for all providers
 
+export interface EpisodeSource {
+  url: string // The download/embed URL
+  host: string // 'uqload', 'vidzy', etc. (hostname for unknown hosts)
+  language?: string // 'vf', 'vostfr', etc.
+}
+
 export interface Episode {
   id: string | number
   name: string
   season?: number
   episode?: number
-  url: string // The download/embed URL
-  language?: string // 'vf', 'vostfr', etc.
+  sources: EpisodeSource[] // Mirrors in preference order, first one is tried first
+  language?: string // Language of the preferred source
+  title?: string // Episode title, when the source exposes it
+  synopsis?: string
 }
 
 export interface Title {
@@ -18,6 +26,9 @@ export interface Title {
 }
 
 export interface TitleDetails extends Title {
+  synopsis?: string
+  genres?: string[]
+  fanartUrl?: string
   episodes: Episode[]
   seasonCount?: number
   episodeCount?: number
@@ -31,6 +42,7 @@ export interface YopflixSearchResultTitle {
   year?: number | null
   is_series?: boolean
   model_type?: string
+  poster?: string | null
 }
 
 export interface YopflixSearchResponse {
@@ -48,6 +60,13 @@ export interface YopflixTitleVideo {
   category?: string | null
 }
 
+export interface YopflixEpisode {
+  name?: string | null
+  description?: string | null
+  season_number: number
+  episode_number: number
+}
+
 export interface YopflixTitleDetails {
   title: {
     id: number
@@ -56,6 +75,12 @@ export interface YopflixTitleDetails {
     season_count?: number
     episode_count?: number
     language?: string
+    year?: number | null
+    description?: string | null
+    poster?: string | null
+    backdrop?: string | null
+    genres?: Array<{ name: string; display_name?: string | null }>
+    season?: { episodes?: YopflixEpisode[] } | null
     videos?: YopflixTitleVideo[]
   }
   status: string
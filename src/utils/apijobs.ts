@@ -0,0 +1,219 @@
+// Download jobs submitted to `serve`: kept in memory, run one at a time through runJobs,
+// with per-file progress, cancellation and a message feed for Server-Sent Events
+
+import { randomUUID } from "node:crypto"
+import { JobManifest, type JobRecord } from "./manifest.ts"
+import { runJobs, type JobEvent, type RunJobsOptions } from "./jobs.ts"
+import { log, withLogPrefix } from "./log.ts"
+import type { QualitySpec } from "./quality.ts"
+
+// A validated POST /api/jobs body
+export interface DownloadRequest {
+  provider: string
+  titleId?: string | number
+  query?: string
+  seasons?: number[]
+  episodes?: number[]
+  max?: number
+  languages?: string[]
+  multiLang?: boolean
+  quality?: string
+}
+
+export type ApiJobStatus = "queued" | "running" | "done" | "failed" | "cancelled"
+
+export interface ApiJobItem {
+  key: string // Manifest key of the file
+  name: string
+  outputPath: string
+  status: "queued" | "downloading" | "done" | "failed" | "skipped" | "cancelled"
+  host?: string // Mirror being tried
+  percent?: number
+  size?: number
+  error?: string
+}
+
+export interface ApiJob {
+  id: string
+  status: ApiJobStatus
+  request: DownloadRequest
+  title?: { provider: string; id: string | number; name: string }
+  items: ApiJobItem[]
+  error?: string
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+}
+
+// What a job downloads, worked out when it starts (searching and listing episodes can fail)
+export interface JobPlan {
+  title: NonNullable<ApiJob["title"]>
+  outDir: string
+  records: JobRecord[]
+  quality?: QualitySpec
+  finish?: (done: JobRecord[]) => Promise<void> // Metadata for the finished files
+}
+
+// `event` is "job" (a snapshot of the job after a status change) or a JobEvent name
+export interface ApiJobMessage {
+  job: string
+  event: string
+  data: unknown
+}
+
+// Finished jobs kept for GET /api/jobs; older ones are dropped
+const MAX_FINISHED_JOBS = 100
+
+export function isFinished(job: ApiJob): boolean {
+  return job.status === "done" || job.status === "failed" || job.status === "cancelled"
+}
+
+export class ApiJobQueue {
+  private jobs = new Map<string, ApiJob>()
+  private pending: ApiJob[] = []
+  private running?: { job: ApiJob; controller: AbortController }
+  private listeners = new Set<(message: ApiJobMessage) => void>()
+
+  constructor(
+    private readonly plan: (request: DownloadRequest) => Promise<JobPlan>,
+    private readonly runOpts: RunJobsOptions
+  ) {}
+
+  list(): ApiJob[] {
+    return [...this.jobs.values()]
+  }
+
+  get(id: string): ApiJob | undefined {
+    return this.jobs.get(id)
+  }
+
+  add(request: DownloadRequest): ApiJob {
+    const job: ApiJob = { id: randomUUID(), status: "queued", request, items: [], createdAt: new Date().toISOString() }
+    this.jobs.set(job.id, job)
+    this.pending.push(job)
+    this.changed(job)
+    void this.next()
+    return job
+  }
+
+  // Queued jobs are dropped right away; a running job stops after its current transfer aborts
+  cancel(id: string): ApiJob | undefined {
+    const job = this.jobs.get(id)
+    if (!job || isFinished(job)) return job
+    if (this.running?.job === job) {
+      this.running.controller.abort()
+      return job
+    }
+    this.pending = this.pending.filter((j) => j !== job)
+    this.finish(job, "cancelled")
+    return job
+  }
+
+  subscribe(listener: (message: ApiJobMessage) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private emit(job: ApiJob, event: string, data: unknown): void {
+    for (const listener of this.listeners) listener({ job: job.id, event, data })
+  }
+
+  private changed(job: ApiJob): void {
+    this.emit(job, "job", job)
+  }
+
+  private finish(job: ApiJob, status: ApiJobStatus, error?: string): void {
+    job.status = status
+    job.error = error
+    job.finishedAt = new Date().toISOString()
+    this.changed(job)
+
+    const finished = this.list().filter(isFinished)
+    for (const old of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) this.jobs.delete(old.id)
+  }
+
+  private async next(): Promise<void> {
+    if (this.running) return
+    const job = this.pending.shift()
+    if (!job) return
+
+    const controller = new AbortController()
+    this.running = { job, controller }
+    try {
+      await withLogPrefix(`job ${job.id.slice(0, 8)}`, () => this.execute(job, controller.signal))
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      log.error(`Job ${job.id} failed: ${message}`)
+      this.finish(job, "failed", message)
+    } finally {
+      this.running = undefined
+    }
+    void this.next()
+  }
+
+  private async execute(job: ApiJob, signal: AbortSignal): Promise<void> {
+    job.status = "running"
+    job.startedAt = new Date().toISOString()
+    this.changed(job)
+
+    const plan = await this.plan(job.request)
+    if (signal.aborted) return this.finish(job, "cancelled")
+    job.title = plan.title
+    job.items = plan.records.map(({ key, name, outputPath }) => ({ key, name, outputPath, status: "queued" }))
+    this.changed(job)
+
+    const manifest = await JobManifest.load(plan.outDir)
+    const failures = await runJobs(manifest, plan.records, {
+      ...this.runOpts,
+      quality: plan.quality ?? this.runOpts.quality,
+      signal,
+      onEvent: (event) => this.track(job, event),
+    })
+    const done = plan.records.filter((r) => manifest.get(r.key)?.status === "done")
+    // The files are downloaded either way; a failed poster or NFO does not fail the job
+    if (done.length > 0) {
+      try {
+        await plan.finish?.(done)
+      } catch (err) {
+        log.warn(`Could not write metadata: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+
+    if (signal.aborted) this.finish(job, "cancelled")
+    else if (failures.length > 0) this.finish(job, "failed", `${failures.length} of ${plan.records.length} file(s) failed`)
+    else this.finish(job, "done")
+  }
+
+  // Keep the job's items current and forward the event to subscribers
+  private track(job: ApiJob, event: JobEvent): void {
+    if ("key" in event) {
+      const item = job.items.find((i) => i.key === event.key)
+      if (item) {
+        switch (event.event) {
+          case "resolving":
+            item.status = "downloading"
+            item.host = event.host
+            item.percent = undefined
+            break
+          case "progress":
+            item.percent = event.percent
+            break
+          case "sourceFailed":
+            item.error = `${event.host}: ${event.error}`
+            break
+          case "done":
+            Object.assign(item, { status: "done", size: event.size, host: event.source.host, percent: 100, error: undefined })
+            break
+          case "failed":
+            Object.assign(item, { status: "failed", error: event.error })
+            break
+          case "skipped":
+          case "cancelled":
+            item.status = event.event
+            break
+        }
+      }
+    }
+    this.emit(job, event.event, { ...event, job: job.id })
+  }
+}
@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import {
+  defineCommand,
+  formatRanges,
+  getCommandAndArgv,
+  getSubcommand,
+  parseDuration,
+  parseOptions,
+  parseRanges,
+  setArgDefaults,
+  setGlobalOptions,
+  UsageError,
+} from "./args.ts"
+
+const command = defineCommand({
+  command: "download",
+  summary: "Download episodes",
+  options: {
+    query: { type: "string", alias: "q", description: "Search text" },
+    season: { type: "range", alias: "s", description: "Seasons" },
+    max: { type: "integer", min: 1, description: "Limit" },
+    offset: { type: "integer", description: "Shift" },
+    ratio: { type: "number", description: "Ratio" },
+    interval: { type: "duration", description: "Interval" },
+    multiLang: { type: "boolean", description: "One file per language" },
+    format: { type: "string", choices: ["mp4", "mkv"], description: "Container" },
+  },
+})
+
+const parse = (...argv: string[]) => parseOptions(command, argv)
+
+afterEach(() => {
+  setArgDefaults({})
+  setGlobalOptions({})
+})
+
+describe("parseRanges", () => {
+  test("expands lists and spans, sorted and without duplicates", () => {
+    expect(parseRanges("1-3,8")).toEqual([1, 2, 3, 8])
+    expect(parseRanges("5, 2 - 3,3")).toEqual([2, 3, 5])
+    expect(parseRanges("7")).toEqual([7])
+  })
+
+  test("rejects malformed, reversed, too low and too long ranges", () => {
+    for (const bad of ["", "a", "1-", "-2", "1,,2", "3-1", "1.5", "1-5001x"]) expect(parseRanges(bad)).toBeNull()
+    expect(parseRanges("0")).toBeNull()
+    expect(parseRanges("0", 0)).toEqual([0])
+    expect(parseRanges("1-5001")).toEqual(Array.from({ length: 5001 }, (_, i) => i + 1))
+    expect(parseRanges("1-5002")).toBeNull()
+  })
+
+  test("formatRanges is its inverse", () => {
+    expect(formatRanges([5, 1, 2, 3, 3, 9, 10])).toBe("1-3,5,9-10")
+    expect(parseRanges(formatRanges([1, 2, 3, 5]))).toEqual([1, 2, 3, 5])
+  })
+})
+
+describe("parseDuration", () => {
+  test("reads seconds by default and s/m/h/d units", () => {
+    expect(parseDuration("90")).toBe(90_000)
+    expect(parseDuration("15m")).toBe(900_000)
+    expect(parseDuration("1.5h")).toBe(5_400_000)
+    expect(parseDuration("1D")).toBe(86_400_000)
+    expect(parseDuration("6 weeks")).toBeUndefined()
+    expect(parseDuration(true)).toBeUndefined()
+  })
+})
+
+describe("parseOptions", () => {
+  test("reads --key value, --key=value, aliases and switches", () => {
+    expect(parse("--query", "psych", "-s", "1-2", "--max=3", "--multiLang")).toEqual({
+      query: "psych",
+      season: [1, 2],
+      max: 3,
+      multiLang: true,
+    })
+    expect(parse("--query=a=b", "--multiLang=no")).toEqual({ query: "a=b", multiLang: false })
+  })
+
+  test("takes negative numbers and a lone dash as values", () => {
+    expect(parse("--offset", "-2", "--ratio", "-0.5", "-q", "-")).toEqual({ offset: -2, ratio: -0.5, query: "-" })
+  })
+
+  test("converts durations", () => {
+    expect(parse("--interval", "6h")).toEqual({ interval: 21_600_000 })
+  })
+
+  test("rejects unknown flags with a suggestion", () => {
+    expect(() => parse("--titleid", "3")).toThrow(UsageError)
+    expect(() => parse("--Query", "x")).toThrow("download: unknown option --Query (did you mean --query?)")
+    expect(() => parse("-x")).toThrow("unknown option -x")
+  })
+
+  test("rejects stray arguments, missing values and bad values", () => {
+    expect(() => parse("psych")).toThrow('unexpected argument "psych"')
+    expect(() => parse("--query")).toThrow("--query needs a value")
+    expect(() => parse("--query", "--multiLang")).toThrow("--query needs a value")
+    expect(() => parse("--query=")).toThrow("--query needs a value")
+    expect(() => parse("--max", "0")).toThrow("--max must be at least 1, got 0")
+    expect(() => parse("--max", "1.5")).toThrow("--max expects a whole number")
+    expect(() => parse("-s", "3-1")).toThrow("--season expects numbers or ranges")
+    expect(() => parse("--multiLang=maybe")).toThrow("--multiLang is a switch")
+    expect(() => parse("--format", "avi")).toThrow("--format must be one of mp4, mkv")
+  })
+
+  test("skips unknown flags and their values with allowUnknown", () => {
+    expect(parseOptions(command, ["--other", "x", "-q", "a", "stray", "--flag"], { allowUnknown: true })).toEqual({
+      query: "a",
+    })
+  })
+
+  test("accepts global options and applies config defaults under the flags", () => {
+    setGlobalOptions({ provider: { type: "string", alias: "p", description: "Provider" } })
+    setArgDefaults({ max: "5", query: "default", unrelated: "x" })
+    // Global options are not part of the command's own type
+    expect(parse("-p", "fs", "--query", "psych") as Record<string, unknown>).toEqual({
+      provider: "fs",
+      query: "psych",
+      max: 5,
+    })
+    expect(parseOptions(command, [], { defaults: false })).toEqual({})
+  })
+
+  test("names the setting of a bad config default", () => {
+    setArgDefaults({ max: "lots" })
+    expect(() => parse()).toThrow("download: invalid max in the config: --max expects a whole number")
+  })
+})
+
+describe("getCommandAndArgv", () => {
+  const withArgv = (argv: string[]) => {
+    const saved = process.argv
+    process.argv = ["bun", "index.ts", ...argv]
+    try {
+      return getCommandAndArgv({
+        provider: { type: "string", alias: "p", description: "Provider" },
+        json: { type: "boolean", description: "JSON output" },
+      })
+    } finally {
+      process.argv = saved
+    }
+  }
+
+  test("finds the command after leading flags and their values", () => {
+    expect(withArgv(["-p", "fs", "--json", "search", "-q", "x"])).toEqual({
+      command: "search",
+      argsv: ["-p", "fs", "--json", "-q", "x"],
+    })
+    expect(withArgv(["--provider=fs", "info", "--titleId", "3"])).toEqual({
+      command: "info",
+      argsv: ["--provider=fs", "--titleId", "3"],
+    })
+  })
+
+  test("defaults to download when there is no command", () => {
+    expect(withArgv(["-p", "fs", "--json", "--offset=-2"])).toEqual({
+      command: "download",
+      argsv: ["-p", "fs", "--json", "--offset=-2"],
+    })
+  })
+})
+
+describe("getSubcommand", () => {
+  test("takes the first token unless it is a flag", () => {
+    expect(getSubcommand(["retry", "-o", "x"], "list")).toEqual({ action: "retry", rest: ["-o", "x"] })
+    expect(getSubcommand(["-o", "x"], "list")).toEqual({ action: "list", rest: ["-o", "x"] })
+    expect(getSubcommand([], "list")).toEqual({ action: "list", rest: [] })
+  })
+})
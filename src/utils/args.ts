@@ -1,49 +1,283 @@
-// Argument parsing utilities
+// Argument parsing: declarative per-command option schemas with validation and help text
+
+export type OptionType = "string" | "integer" | "number" | "boolean" | "range" | "duration"
+
+export interface OptionSpec {
+  type: OptionType
+  description: string
+  alias?: string // Single letter: -q
+  placeholder?: string // Shown in help: --outDir <DIR>
+  default?: string // Shown in help only; commands apply their own fallback
+  choices?: readonly string[]
+  min?: number // integer, number and range values
+  validate?: (value: string) => string | undefined // Error message for a bad string value
+}
+
+export type OptionSchema = Record<string, OptionSpec>
+
+export interface CommandSchema<O extends OptionSchema = OptionSchema> {
+  command: string // "download", "jobs retry"
+  summary: string
+  usage?: string // After the command name in help; "[options]" by default
+  options: O
+  examples?: string[]
+}
+
+type OptionValue<S extends OptionSpec> = S["type"] extends "boolean"
+  ? boolean
+  : S["type"] extends "integer" | "number" | "duration"
+    ? number
+    : S["type"] extends "range"
+      ? number[]
+      : S extends { choices: readonly (infer C)[] }
+        ? C
+        : string
+
+export type Options<O extends OptionSchema> = { -readonly [K in keyof O]?: OptionValue<O[K]> }
+
+// Bad command lines; the entry point adds a pointer to `help <command>`
+export class UsageError extends Error {
+  constructor(
+    message: string,
+    readonly command?: string
+  ) {
+    super(message)
+  }
+}
+
+// Keeps literal option types so parseOptions can type its result
+export function defineCommand<const O extends OptionSchema>(schema: CommandSchema<O>): CommandSchema<O> {
+  return schema
+}
+
+let argDefaults: Record<string, string> = {}
+let globalOptions: OptionSchema = {}
+
+// Values from the config file and profile; flags on the command line win
+export function setArgDefaults(defaults: Record<string, string>): void {
+  argDefaults = defaults
+}
+
+// Options every command accepts (--provider, --proxy, ...); the entry point reads them
+export function setGlobalOptions(options: OptionSchema): void {
+  globalOptions = options
+}
+
+export function getGlobalOptions(): OptionSchema {
+  return globalOptions
+}
+
+// Largest span a single range may cover, so a typo like 1-100000 fails fast
+const MAX_RANGE_SPAN = 5000
+
+// "1-5,8" -> [1, 2, 3, 4, 5, 8] (sorted, without duplicates)
+export function parseRanges(val: string, min = 1): number[] | null {
+  const values = new Set<number>()
+  for (const part of val.split(",").map((s) => s.trim())) {
+    const match = part.match(/^(\d+)(?:\s*-\s*(\d+))?$/)
+    if (!match) return null
+    const start = Number(match[1])
+    const end = match[2] === undefined ? start : Number(match[2])
+    if (start < min || end < start || end - start > MAX_RANGE_SPAN) return null
+    for (let n = start; n <= end; n += 1) values.add(n)
+  }
+  return [...values].sort((a, b) => a - b)
+}
+
+// [1, 2, 3, 5] -> "1-3,5"
+export function formatRanges(values: number[]): string {
+  const sorted = [...new Set(values)].sort((a, b) => a - b)
+  const parts: string[] = []
+  for (let i = 0; i < sorted.length; ) {
+    let j = i
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j]! + 1) j += 1
+    parts.push(i === j ? String(sorted[i]) : `${sorted[i]}-${sorted[j]}`)
+    i = j + 1
+  }
+  return parts.join(",")
+}
+
+// "90", "30s", "15m", "6h", "1d" -> milliseconds (bare numbers are seconds)
+export function parseDuration(val: string | boolean | undefined): number | undefined {
+  if (typeof val !== "string") return undefined
+  const match = val.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d)?$/i)
+  if (!match) return undefined
+  const unit = (match[2] ?? "s").toLowerCase()
+  const factor = unit === "d" ? 86_400_000 : unit === "h" ? 3_600_000 : unit === "m" ? 60_000 : 1000
+  return Number(match[1]) * factor
+}
+
+const BOOLEAN_WORDS: Record<string, boolean> = { true: true, yes: true, "1": true, false: false, no: false, "0": false }
+
+function convert(name: string, spec: OptionSpec, raw: string): string | number | boolean | number[] {
+  const flag = `--${name}`
+  switch (spec.type) {
+    case "boolean": {
+      const value = BOOLEAN_WORDS[raw.toLowerCase()]
+      if (value === undefined) throw new UsageError(`${flag} is a switch; it takes no value (got "${raw}")`)
+      return value
+    }
+    case "integer":
+    case "number": {
+      const value = Number(raw)
+      const ok = raw.trim() !== "" && Number.isFinite(value) && (spec.type === "number" || Number.isInteger(value))
+      if (!ok) throw new UsageError(`${flag} expects ${spec.type === "integer" ? "a whole number" : "a number"}, got "${raw}"`)
+      if (spec.min !== undefined && value < spec.min) throw new UsageError(`${flag} must be at least ${spec.min}, got ${raw}`)
+      return value
+    }
+    case "range": {
+      const value = parseRanges(raw, spec.min ?? 1)
+      if (!value) throw new UsageError(`${flag} expects numbers or ranges like 1-5,8, got "${raw}"`)
+      return value
+    }
+    case "duration": {
+      const value = parseDuration(raw)
+      if (value === undefined) throw new UsageError(`${flag} expects a duration like 90, 30s, 15m or 6h, got "${raw}"`)
+      return value
+    }
+    case "string": {
+      if (spec.choices && !spec.choices.includes(raw)) {
+        throw new UsageError(`${flag} must be one of ${spec.choices.join(", ")}, got "${raw}"`)
+      }
+      const problem = spec.validate?.(raw)
+      if (problem) throw new UsageError(`${flag}: ${problem}`)
+      return raw
+    }
+  }
+}
+
+// "Did you mean --titleId?" for case slips and near misses
+function suggest(token: string, names: string[]): string {
+  const lower = token.toLowerCase()
+  const match =
+    names.find((n) => n.toLowerCase() === lower) ??
+    names.find((n) => n.toLowerCase().startsWith(lower) || lower.startsWith(n.toLowerCase()))
+  return match ? ` (did you mean --${match}?)` : ""
+}
+
+function lookup(options: OptionSchema, token: string): { name: string; spec: OptionSpec } | undefined {
+  if (token.startsWith("--")) {
+    const name = token.slice(2)
+    const spec = options[name]
+    return spec ? { name, spec } : undefined
+  }
+  const alias = token.slice(1)
+  const entry = Object.entries(options).find(([, spec]) => spec.alias === alias)
+  return entry ? { name: entry[0], spec: entry[1] } : undefined
+}
+
+// A lone "-" or a negative number is a value, not a flag
+function isFlag(token: string): boolean {
+  return token.startsWith("-") && token !== "-" && !/^-\d/.test(token)
+}
+
+// Parse `--key value`, `--key=value`, `-k value` and `--switch`. Unknown flags, stray
+// arguments and bad values throw a UsageError; global options are accepted everywhere.
+// With `allowUnknown`, unknown flags are skipped (the entry point reads the globals first).
+export function parseOptions<O extends OptionSchema>(
+  schema: CommandSchema<O>,
+  argv: string[],
+  opts?: { allowUnknown?: boolean; defaults?: boolean }
+): Options<O> {
+  const options: OptionSchema = { ...globalOptions, ...schema.options }
+  const parsed: Record<string, unknown> = {}
+  const fail = (message: string): never => {
+    throw new UsageError(`${schema.command}: ${message}`, schema.command)
+  }
+
+  // Config defaults first, validated like flags so a bad config value names its setting
+  if (opts?.defaults !== false) {
+    for (const [name, raw] of Object.entries(argDefaults)) {
+      const spec = options[name]
+      if (!spec) continue
+      try {
+        parsed[name] = convert(name, spec, raw)
+      } catch (err) {
+        fail(`invalid ${name} in the config: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+  }
 
-export function parseArgs(argv: string[]): Record<string, string | boolean> {
-  const args: Record<string, string | boolean> = {}
   for (let i = 0; i < argv.length; i += 1) {
-    const token = argv[i]
-    if (!token) continue
-    if (!token.startsWith("--")) continue
-    const key = token.slice(2)
-    const next = argv[i + 1]
-    if (!next || next.startsWith("--")) {
-      args[key] = true
+    const token = argv[i]!
+    if (!isFlag(token)) {
+      if (opts?.allowUnknown) continue
+      fail(`unexpected argument "${token}"`)
+    }
+    const eq = token.indexOf("=")
+    const key = eq > 0 ? token.slice(0, eq) : token
+    const found = lookup(options, key)
+    if (!found) {
+      if (opts?.allowUnknown) {
+        // Assume an unknown flag takes the next token as its value, like the old parser did
+        if (eq < 0 && argv[i + 1] !== undefined && !isFlag(argv[i + 1]!)) i += 1
+        continue
+      }
+      fail(`unknown option ${key}${suggest(key.replace(/^-+/, ""), Object.keys(options))}`)
+    }
+
+    const { name, spec } = found!
+    let raw: string
+    if (eq > 0) {
+      raw = token.slice(eq + 1)
+    } else if (spec.type === "boolean") {
+      raw = "true"
     } else {
-      args[key] = next
+      const next = argv[i + 1]
+      if (next === undefined || isFlag(next)) fail(`--${name} needs a value${spec.placeholder ? ` (${spec.placeholder})` : ""}`)
+      raw = next!
       i += 1
     }
+    if (raw.length === 0 && spec.type !== "boolean") fail(`--${name} needs a value`)
+    try {
+      parsed[name] = convert(name, spec, raw)
+    } catch (err) {
+      fail(err instanceof Error ? err.message : String(err))
+    }
   }
-  return args
+  return parsed as Options<O>
 }
 
-export function getCommandAndArgv(): { command: string; argsv: string[] } {
+// The command is the first argument that is neither a flag nor a flag's value; `leading`
+// tells which flags before it take values. Without one, `download` is assumed.
+export function getCommandAndArgv(leading: OptionSchema): { command: string; argsv: string[] } {
   const argv = process.argv.slice(2)
-  const firstNonFlag = argv.find((a) => !a.startsWith("--"))
-  if (!firstNonFlag) return { command: "download", argsv: argv } // default
-  // Treat the first non-flag as command, remove it from list
-  const idx = argv.indexOf(firstNonFlag)
-  const argsv = [...argv.slice(0, idx), ...argv.slice(idx + 1)]
-  return { command: firstNonFlag, argsv }
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i]!
+    if (!isFlag(token)) return { command: token, argsv: [...argv.slice(0, i), ...argv.slice(i + 1)] }
+    const found = token.includes("=") ? undefined : lookup(leading, token)
+    if (found && found.spec.type !== "boolean") i += 1
+  }
+  return { command: "download", argsv: argv }
 }
 
-export function ensureString(val: string | boolean | undefined, fallback: string): string {
-  return typeof val === "string" && val.length > 0 ? val : fallback
+// For command families like `jobs retry`: the first token, when it is not a flag, is the action
+export function getSubcommand(argsv: string[], fallback: string): { action: string; rest: string[] } {
+  const first = argsv[0]
+  if (!first || isFlag(first)) return { action: fallback, rest: argsv }
+  return { action: first, rest: argsv.slice(1) }
 }
 
-export function ensureNumber(val: string | boolean | undefined): number | undefined {
-  if (typeof val !== "string") return undefined
-  const n = Number(val)
-  return Number.isFinite(n) ? n : undefined
+export function formatOptions(options: OptionSchema): string[] {
+  const rows = Object.entries(options).map(([name, spec]) => {
+    const alias = spec.alias ? `-${spec.alias}, ` : "    "
+    const value = spec.type === "boolean" ? "" : ` <${spec.placeholder ?? spec.type}>`
+    const extras = [
+      spec.choices ? `one of ${spec.choices.join(", ")}` : "",
+      spec.default !== undefined ? `default ${spec.default}` : "",
+    ].filter(Boolean)
+    const right = extras.length > 0 ? `${spec.description} (${extras.join("; ")})` : spec.description
+    return { left: `${alias}--${name}${value}`, right }
+  })
+  const width = Math.max(0, ...rows.map((r) => r.left.length))
+  return rows.map((r) => `  ${r.left.padEnd(width)}  ${r.right}`)
 }
 
-export function splitCsvNumbers(val: string | boolean | undefined): number[] | undefined {
-  if (typeof val !== "string") return undefined
-  return val
-    .split(",")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0)
-    .map((s) => Number(s))
-    .filter((n) => Number.isFinite(n))
+export function formatCommandHelp(schema: CommandSchema, program: string): string {
+  const lines = [`Usage: ${program} ${schema.command} ${schema.usage ?? "[options]"}`, "", schema.summary]
+  if (Object.keys(schema.options).length > 0) lines.push("", "Options:", ...formatOptions(schema.options))
+  if (schema.examples && schema.examples.length > 0) {
+    lines.push("", "Examples:", ...schema.examples.map((e) => `  ${program} ${e}`))
+  }
+  return lines.join("\n")
 }
@@ -0,0 +1,69 @@
+// External executable lookup (yt-dlp, ffmpeg, ffprobe, aria2c)
+
+import path from "node:path"
+import { configuredBinary } from "./config.ts"
+
+export async function findExecutable(names: string[]): Promise<string | null> {
+  for (const name of names) {
+    try {
+      const proc = Bun.spawn([name, "--version"], { stdio: ["ignore", "pipe", "pipe"] })
+      const code = await proc.exited
+      if (code === 0) return name
+    } catch {
+      // ignore and continue
+    }
+  }
+  return null
+}
+
+export async function resolveFfmpegBinary(): Promise<string | null> {
+  const override = configuredBinary("ffmpeg")
+  if (override && override.length > 0) return override
+
+  const fromEnvPath = process.env.PATH?.split(":") ?? []
+  const candidates = [
+    "ffmpeg",
+    ...fromEnvPath.flatMap((dir) => [`${dir}/ffmpeg`]),
+  ]
+  return findExecutable(candidates)
+}
+
+// ffprobe usually ships with ffmpeg, so a configured ffmpeg's directory is tried first
+export async function resolveFfprobeBinary(): Promise<string | null> {
+  const override = configuredBinary("ffprobe")
+  if (override && override.length > 0) return override
+
+  const ffmpeg = configuredBinary("ffmpeg")
+  const besideFfmpeg = ffmpeg?.includes("/") ? [path.join(path.dirname(ffmpeg), "ffprobe")] : []
+  const fromEnvPath = process.env.PATH?.split(":") ?? []
+  return findExecutable([...besideFfmpeg, "ffprobe", ...fromEnvPath.map((dir) => `${dir}/ffprobe`)])
+}
+
+export async function resolveYtDlpBinary(): Promise<string> {
+  const override = configuredBinary("ytdlp")
+  if (override && override.length > 0) return override
+
+  const baseNames = ["yt-dlp", "yt-dlp_linux", "yt-dlp_linux_aarch64"]
+  const fromEnvPath = process.env.PATH?.split(":") ?? []
+  const misePaths = [
+    `${process.env.HOME}/.local/share/mise/shims`,
+    `${process.env.HOME}/.local/share/mise/installs/yt-dlp/latest`,
+  ]
+  const searchDirs = [...fromEnvPath, ...misePaths]
+  const candidates = [
+    ...baseNames,
+    ...searchDirs.flatMap((dir) => baseNames.map((n) => `${dir}/${n}`)),
+  ]
+  const candidate = await findExecutable(candidates)
+  if (candidate) return candidate
+  throw new Error("Could not find yt-dlp executable (tried: yt-dlp, yt-dlp_linux). Set YTDLP_BIN or binaries.ytdlp in the config.")
+}
+
+export async function resolveAria2Binary(): Promise<string> {
+  const override = configuredBinary("aria2c")
+  if (override && override.length > 0) return override
+
+  const candidate = await findExecutable(["aria2c"])
+  if (candidate) return candidate
+  throw new Error("Could not find aria2c executable. Set ARIA2C_BIN or binaries.aria2c in the config.")
+}
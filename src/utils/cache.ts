@@ -0,0 +1,99 @@
+// On-disk response cache (one JSON file per entry under the user cache directory)
+
+import path from "node:path"
+import { createHash } from "node:crypto"
+import { mkdir, readdir, rename, rm, stat } from "node:fs/promises"
+import { cacheDir } from "./paths.ts"
+
+// use: read and write; refresh: skip reads but store fresh responses; off: bypass entirely
+export type CacheMode = "use" | "refresh" | "off"
+
+interface CacheEntry {
+  key: string
+  expiresAt: number
+  body: string
+}
+
+let mode: CacheMode = "use"
+
+export function setCacheMode(next: CacheMode): void {
+  mode = next
+}
+
+export function getCacheMode(): CacheMode {
+  return mode
+}
+
+function httpCacheDir(): string {
+  return path.join(cacheDir(), "http")
+}
+
+function entryPath(key: string): string {
+  return path.join(httpCacheDir(), `${createHash("sha256").update(key).digest("hex")}.json`)
+}
+
+export async function readCache(key: string): Promise<string | null> {
+  if (mode !== "use") return null
+  const file = Bun.file(entryPath(key))
+  if (!(await file.exists())) return null
+  try {
+    const entry = (await file.json()) as CacheEntry
+    // The key is stored too so a hash collision can never serve another URL's body
+    if (entry.key === key && entry.expiresAt > Date.now()) return entry.body
+  } catch {}
+  await rm(entryPath(key), { force: true })
+  return null
+}
+
+export async function writeCache(key: string, body: string, expiresAt: number): Promise<void> {
+  if (mode === "off" || expiresAt <= Date.now()) return
+  const filePath = entryPath(key)
+  const tmpPath = `${filePath}.${process.pid}.tmp`
+  try {
+    await mkdir(httpCacheDir(), { recursive: true })
+    await Bun.write(tmpPath, JSON.stringify({ key, expiresAt, body } satisfies CacheEntry))
+    await rename(tmpPath, filePath)
+  } catch {
+    // A read-only or full cache directory must not break the request that produced the body
+    await rm(tmpPath, { force: true }).catch(() => {})
+  }
+}
+
+export async function deleteCache(key: string): Promise<void> {
+  await rm(entryPath(key), { force: true })
+}
+
+export interface CacheStats {
+  entries: number
+  expired: number
+  bytes: number
+}
+
+export async function cacheStats(): Promise<CacheStats> {
+  const stats: CacheStats = { entries: 0, expired: 0, bytes: 0 }
+  const names = await readdir(httpCacheDir()).catch(() => [] as string[])
+  for (const name of names.filter((n) => n.endsWith(".json"))) {
+    const filePath = path.join(httpCacheDir(), name)
+    stats.entries += 1
+    stats.bytes += (await stat(filePath).catch(() => null))?.size ?? 0
+    const entry = (await Bun.file(filePath).json().catch(() => null)) as CacheEntry | null
+    if (!entry || entry.expiresAt <= Date.now()) stats.expired += 1
+  }
+  return stats
+}
+
+// Remove every entry, or only the expired ones; returns how many files were deleted
+export async function clearCache(expiredOnly = false): Promise<number> {
+  const names = await readdir(httpCacheDir()).catch(() => [] as string[])
+  let removed = 0
+  for (const name of names) {
+    const filePath = path.join(httpCacheDir(), name)
+    if (expiredOnly && name.endsWith(".json")) {
+      const entry = (await Bun.file(filePath).json().catch(() => null)) as CacheEntry | null
+      if (entry && entry.expiresAt > Date.now()) continue
+    }
+    await rm(filePath, { force: true })
+    removed += 1
+  }
+  return removed
+}
@@ -0,0 +1,225 @@
+// Config files: defaults for command-line flags, binaries and mirrors, with named profiles.
+//
+// Layers, lowest first: built-in defaults, ~/.config/yopflix-downloader/config.json,
+// ./yopflix-downloader.json, the --profile section of either file, environment variables
+// (binaries only), then the command line.
+//
+// {
+//   "provider": "fs",
+//   "outDir": "~/Videos/Series",
+//   "lang": "vostfr,vf",
+//   "retries": 2,
+//   "binaries": { "ytdlp": "/opt/yt-dlp", "ffmpeg": "ffmpeg", "ytdlpPluginDirs": "./plugins" },
+//   "mirrors": { "frenchstream": ["https://fs03.lol"] },
+//   "profiles": { "anime": { "outDir": "/mnt/media/Anime", "lang": "vostfr" } }
+// }
+
+import os from "node:os"
+import path from "node:path"
+import { configDir } from "./paths.ts"
+
+export const PROJECT_CONFIG_FILE = "yopflix-downloader.json"
+
+// Settings that double as command-line flags, and the binaries (set by env vars otherwise)
+const FLAG_KEYS = ["provider", "outDir", "lang", "retries"] as const
+const BINARY_KEYS = ["ytdlp", "ffmpeg", "ffprobe", "aria2c", "ytdlpPluginDirs"] as const
+
+type BinaryKey = (typeof BINARY_KEYS)[number]
+
+export const BINARY_ENV: Record<BinaryKey, string> = {
+  ytdlp: "YTDLP_BIN",
+  ffmpeg: "FFMPEG_BIN",
+  ffprobe: "FFPROBE_BIN",
+  aria2c: "ARIA2C_BIN",
+  ytdlpPluginDirs: "YTDLP_PLUGIN_DIRS",
+}
+
+// Shown by `config show` for settings nothing overrides
+const BUILTIN: Record<string, string> = {
+  provider: "yopflix",
+  outDir: "./downloads",
+  lang: "vf,vostfr,vo",
+  retries: "2",
+  "binaries.ytdlp": "yt-dlp from PATH",
+  "binaries.ffmpeg": "ffmpeg from PATH",
+  "binaries.ffprobe": "ffprobe next to ffmpeg, or from PATH",
+  "binaries.aria2c": "aria2c from PATH",
+  "binaries.ytdlpPluginDirs": "./plugins/xfileshare",
+}
+
+export interface Setting {
+  value: string
+  source: string // "built-in", a file path, "profile anime (<file>)", "env YTDLP_BIN" or "--outDir"
+}
+
+export interface Config {
+  files: string[] // Config files that were found, lowest precedence first
+  profile?: string
+  settings: Map<string, Setting> // "provider", "outDir", "binaries.ytdlp", ...
+  mirrors: Record<string, string[]>
+}
+
+interface ConfigLayer {
+  provider?: string
+  outDir?: string
+  lang?: string | string[]
+  retries?: number
+  binaries?: Partial<Record<BinaryKey, string | string[]>>
+}
+
+interface ConfigFile extends ConfigLayer {
+  mirrors?: Record<string, string[]>
+  profiles?: Record<string, ConfigLayer>
+}
+
+let current: Config = { files: [], settings: new Map(), mirrors: {} }
+
+export function userConfigPath(): string {
+  return path.join(configDir(), "config.json")
+}
+
+export function projectConfigPath(): string {
+  return path.join(process.cwd(), PROJECT_CONFIG_FILE)
+}
+
+function expandHome(value: string): string {
+  return value === "~" || value.startsWith("~/") ? path.join(os.homedir(), value.slice(1)) : value
+}
+
+function fail(file: string, message: string): never {
+  throw new Error(`config: ${message} in ${file}`)
+}
+
+function checkLayer(layer: unknown, file: string, where: string): ConfigLayer {
+  if (typeof layer !== "object" || layer === null || Array.isArray(layer)) fail(file, `${where} must be an object`)
+  const entries = layer as Record<string, unknown>
+  for (const [key, value] of Object.entries(entries)) {
+    const at = where ? `${where}.${key}` : key
+    if (key === "provider" || key === "outDir") {
+      if (typeof value !== "string" || value.length === 0) fail(file, `"${at}" must be a non-empty string`)
+    } else if (key === "lang") {
+      const ok = typeof value === "string" || (Array.isArray(value) && value.every((v) => typeof v === "string"))
+      if (!ok) fail(file, `"${at}" must be a string like "vostfr,vf" or a list of languages`)
+    } else if (key === "retries") {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 0) fail(file, `"${at}" must be a whole number >= 0`)
+    } else if (key === "binaries") {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) fail(file, `"${at}" must be an object`)
+      for (const [name, bin] of Object.entries(value)) {
+        if (!(BINARY_KEYS as readonly string[]).includes(name)) {
+          fail(file, `unknown binary "${at}.${name}" (expected ${BINARY_KEYS.join(", ")})`)
+        }
+        const ok = typeof bin === "string" || (name === "ytdlpPluginDirs" && Array.isArray(bin))
+        if (!ok) fail(file, `"${at}.${name}" must be a string`)
+      }
+    } else if (!(where === "" && (key === "mirrors" || key === "profiles"))) {
+      fail(file, `unknown setting "${at}"`)
+    }
+  }
+  return entries as ConfigLayer
+}
+
+async function readConfigFile(file: string): Promise<ConfigFile | null> {
+  const handle = Bun.file(file)
+  if (!(await handle.exists())) return null
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(await handle.text())
+  } catch (err) {
+    fail(file, `invalid JSON (${err instanceof Error ? err.message : String(err)})`)
+  }
+  const config = checkLayer(parsed, file, "") as ConfigFile
+  if (config.profiles !== undefined) {
+    if (typeof config.profiles !== "object" || config.profiles === null) fail(file, `"profiles" must be an object`)
+    for (const [name, profile] of Object.entries(config.profiles)) {
+      const layer = checkLayer(profile, file, `profiles.${name}`) as Record<string, unknown>
+      if ("profiles" in layer || "mirrors" in layer) fail(file, `"profiles.${name}" cannot contain profiles or mirrors`)
+    }
+  }
+  if (config.mirrors !== undefined) {
+    const ok =
+      typeof config.mirrors === "object" &&
+      config.mirrors !== null &&
+      Object.values(config.mirrors).every((v) => Array.isArray(v) && v.every((u) => typeof u === "string"))
+    if (!ok) fail(file, `"mirrors" must map provider names to lists of URLs`)
+  }
+  return config
+}
+
+function applyLayer(settings: Map<string, Setting>, layer: ConfigLayer, source: string): void {
+  for (const key of FLAG_KEYS) {
+    const value = layer[key]
+    if (value === undefined) continue
+    const text = key === "outDir" ? expandHome(String(value)) : Array.isArray(value) ? value.join(",") : String(value)
+    settings.set(key, { value: text, source })
+  }
+  for (const key of BINARY_KEYS) {
+    const value = layer.binaries?.[key]
+    if (value === undefined) continue
+    const text = Array.isArray(value) ? value.map(expandHome).join(":") : expandHome(value)
+    settings.set(`binaries.${key}`, { value: text, source })
+  }
+}
+
+// Read both files and the profile; the result is what commands and `config show` use.
+// An unknown profile is an error so a typo never silently downloads to the wrong place.
+export async function loadConfig(profile?: string): Promise<Config> {
+  const settings = new Map<string, Setting>()
+  for (const [key, value] of Object.entries(BUILTIN)) settings.set(key, { value, source: "built-in" })
+
+  const loaded: Array<{ file: string; config: ConfigFile }> = []
+  for (const file of [userConfigPath(), projectConfigPath()]) {
+    const config = await readConfigFile(file)
+    if (config) loaded.push({ file, config })
+  }
+
+  const mirrors: Record<string, string[]> = {}
+  for (const { file, config } of loaded) {
+    applyLayer(settings, config, file)
+    // Project mirrors go first: they are usually the newest
+    for (const [provider, urls] of Object.entries(config.mirrors ?? {})) mirrors[provider] = [...urls, ...(mirrors[provider] ?? [])]
+  }
+
+  if (profile) {
+    const withProfile = loaded.filter(({ config }) => config.profiles?.[profile])
+    if (withProfile.length === 0) {
+      const known = [...new Set(loaded.flatMap(({ config }) => Object.keys(config.profiles ?? {})))]
+      const hint =
+        known.length > 0
+          ? `available: ${known.join(", ")}`
+          : `no profiles defined in ${userConfigPath()} or ./${PROJECT_CONFIG_FILE}`
+      throw new Error(`config: unknown profile "${profile}" (${hint})`)
+    }
+    for (const { file, config } of withProfile) applyLayer(settings, config.profiles![profile]!, `profile ${profile} (${file})`)
+  }
+
+  for (const key of BINARY_KEYS) {
+    const value = process.env[BINARY_ENV[key]]
+    if (value) settings.set(`binaries.${key}`, { value, source: `env ${BINARY_ENV[key]}` })
+  }
+
+  current = { files: loaded.map((l) => l.file), profile, settings, mirrors }
+  return current
+}
+
+// The config loaded at startup (empty until loadConfig runs)
+export function currentConfig(): Config {
+  return current
+}
+
+// Flag defaults for parseOptions: only values a config file or profile actually set
+export function configArgDefaults(config: Config): Record<string, string> {
+  const defaults: Record<string, string> = {}
+  for (const key of FLAG_KEYS) {
+    const setting = config.settings.get(key)
+    if (setting && setting.source !== "built-in") defaults[key] = setting.value
+  }
+  return defaults
+}
+
+// A binary path from the environment or the config, undefined to search PATH
+export function configuredBinary(key: BinaryKey): string | undefined {
+  const fromEnv = process.env[BINARY_ENV[key]]
+  if (fromEnv) return fromEnv
+  const setting = current.settings.get(`binaries.${key}`)
+  return setting && setting.source !== "built-in" ? setting.value : undefined
+}
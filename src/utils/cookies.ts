@@ -0,0 +1,138 @@
+// Cookie jar shared by every request; persisted in the cache directory so Cloudflare
+// clearance and session cookies survive between runs
+
+import path from "node:path"
+import { mkdir, rename } from "node:fs/promises"
+import { cacheDir } from "./paths.ts"
+
+interface StoredCookie {
+  name: string
+  value: string
+  domain: string // Lower-case, without a leading dot
+  hostOnly: boolean // No Domain attribute: only sent to the exact host
+  path: string
+  secure: boolean
+  expiresAt?: number // Unset for session cookies
+}
+
+function defaultPath(url: URL): string {
+  const dir = url.pathname.slice(0, url.pathname.lastIndexOf("/"))
+  return dir.length > 0 ? dir : "/"
+}
+
+function parseSetCookie(header: string, url: URL): StoredCookie | null {
+  const [pair = "", ...attrs] = header.split(";")
+  const eq = pair.indexOf("=")
+  if (eq <= 0) return null
+  const cookie: StoredCookie = {
+    name: pair.slice(0, eq).trim(),
+    value: pair.slice(eq + 1).trim(),
+    domain: url.hostname.toLowerCase(),
+    hostOnly: true,
+    path: defaultPath(url),
+    secure: false,
+  }
+
+  for (const attr of attrs) {
+    const [rawKey = "", ...rest] = attr.split("=")
+    const key = rawKey.trim().toLowerCase()
+    const value = rest.join("=").trim()
+    if (key === "domain" && value) {
+      const domain = value.replace(/^\./, "").toLowerCase()
+      // A site may only set cookies for itself or a parent domain
+      if (cookie.domain !== domain && !cookie.domain.endsWith(`.${domain}`)) return null
+      cookie.domain = domain
+      cookie.hostOnly = false
+    } else if (key === "path" && value.startsWith("/")) {
+      cookie.path = value
+    } else if (key === "secure") {
+      cookie.secure = true
+    } else if (key === "max-age" && /^-?\d+$/.test(value)) {
+      cookie.expiresAt = Date.now() + Number(value) * 1000
+    } else if (key === "expires" && cookie.expiresAt === undefined) {
+      const time = Date.parse(value)
+      if (Number.isFinite(time)) cookie.expiresAt = time
+    }
+  }
+  return cookie
+}
+
+function matches(cookie: StoredCookie, url: URL): boolean {
+  const host = url.hostname.toLowerCase()
+  const domainOk = cookie.hostOnly ? host === cookie.domain : host === cookie.domain || host.endsWith(`.${cookie.domain}`)
+  const pathOk =
+    url.pathname === cookie.path ||
+    (url.pathname.startsWith(cookie.path) && (cookie.path.endsWith("/") || url.pathname[cookie.path.length] === "/"))
+  return domainOk && pathOk && (!cookie.secure || url.protocol === "https:")
+}
+
+export class CookieJar {
+  private cookies = new Map<string, StoredCookie>()
+  private loaded = false
+  private saving: Promise<void> = Promise.resolve()
+
+  constructor(private readonly filePath: string | null) {}
+
+  static defaultPath(): string {
+    return path.join(cacheDir(), "cookies.json")
+  }
+
+  private static id(cookie: StoredCookie): string {
+    return `${cookie.domain};${cookie.path};${cookie.name}`
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return
+    this.loaded = true
+    if (!this.filePath) return
+    const file = Bun.file(this.filePath)
+    if (!(await file.exists())) return
+    const stored = (await file.json().catch(() => [])) as StoredCookie[]
+    for (const cookie of stored) this.cookies.set(CookieJar.id(cookie), cookie)
+  }
+
+  async header(url: string): Promise<string | undefined> {
+    await this.load()
+    const target = new URL(url)
+    const now = Date.now()
+    const values: string[] = []
+    for (const [id, cookie] of this.cookies) {
+      if (cookie.expiresAt !== undefined && cookie.expiresAt <= now) {
+        this.cookies.delete(id)
+        continue
+      }
+      if (matches(cookie, target)) values.push(`${cookie.name}=${cookie.value}`)
+    }
+    return values.length > 0 ? values.join("; ") : undefined
+  }
+
+  async store(url: string, setCookies: string[]): Promise<void> {
+    if (setCookies.length === 0) return
+    await this.load()
+    const source = new URL(url)
+    for (const header of setCookies) {
+      const cookie = parseSetCookie(header, source)
+      if (!cookie) continue
+      // An expiry in the past is how servers delete cookies
+      if (cookie.expiresAt !== undefined && cookie.expiresAt <= Date.now()) this.cookies.delete(CookieJar.id(cookie))
+      else this.cookies.set(CookieJar.id(cookie), cookie)
+    }
+    await this.save()
+  }
+
+  // Session cookies are kept too: a run is one "session" and Cloudflare relies on them
+  private async save(): Promise<void> {
+    const filePath = this.filePath
+    if (!filePath) return
+    const snapshot = JSON.stringify([...this.cookies.values()], null, 2)
+    this.saving = this.saving.then(async () => {
+      try {
+        await mkdir(path.dirname(filePath), { recursive: true })
+        const tmpPath = `${filePath}.${process.pid}.tmp`
+        await Bun.write(tmpPath, snapshot)
+        await rename(tmpPath, filePath)
+      } catch {}
+    })
+    await this.saving
+  }
+}
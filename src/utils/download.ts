@@ -1,49 +1,20 @@
-// yt-dlp integration and download utilities
+// Download pipeline: stream resolution, backend dispatch, remux and retries
 
 import path from "node:path"
-import { mkdir, stat } from "node:fs/promises"
-import { isUqloadEmbed as isUqloadEmbedUrl, resolveUqloadEmbed } from "./uqload.ts"
-import { isVidzyEmbed, resolveVidzyEmbed } from "./vidzy.ts"
-
-// Plugin directory (local to repo; override with YTDLP_PLUGIN_DIRS)
-const REPO_PLUGIN_DIR = path.join(process.cwd(), "plugins", "xfileshare")
-
-function getPluginDirsFlag(): string[] {
-  const fromEnv = process.env.YTDLP_PLUGIN_DIRS
-  if (fromEnv && fromEnv.length > 0) {
-    return ["--plugin-dirs", fromEnv]
-  }
-  return ["--plugin-dirs", REPO_PLUGIN_DIR]
-}
-
-async function findExecutable(names: string[]): Promise<string | null> {
-  for (const name of names) {
-    try {
-      const proc = Bun.spawn([name, "--version"], { stdio: ["ignore", "pipe", "pipe"] })
-      const code = await proc.exited
-      if (code === 0) return name
-    } catch {
-      // ignore and continue
-    }
-  }
-  return null
-}
-
-async function resolveFfmpegBinary(): Promise<string | null> {
-  const override = process.env.FFMPEG_BIN
-  if (override && override.length > 0) return override
-
-  const fromEnvPath = process.env.PATH?.split(":") ?? []
-  const candidates = [
-    "ffmpeg",
-    ...fromEnvPath.flatMap((dir) => [`${dir}/ffmpeg`]),
-  ]
-  return findExecutable(candidates)
-}
-
-function isHlsUrl(url: string): boolean {
-  return /\.m3u8(?:\?|$)/i.test(url)
-}
+import { mkdir, rename, rm, stat } from "node:fs/promises"
+import type { EpisodeSource } from "../types.ts"
+import { resolveFfmpegBinary } from "./binaries.ts"
+import { pickBackend } from "../backends/index.ts"
+import { forgetResolution, resolveEmbed } from "../resolvers/index.ts"
+import { log, spawnLogged } from "./log.ts"
+import type { HostLimiter } from "./queue.ts"
+import { fetchPlaylist, isHlsUrl, type HlsVariant } from "./hls.ts"
+import { formatVariant, selectVariant, type QualitySpec } from "./quality.ts"
+import { muxSubtitles, saveSubtitles } from "./subtitles.ts"
+import type { SubtitleTrack } from "../resolvers/base.ts"
+import type { DownloadProgress } from "../backends/base.ts"
+import { verifyOrQuarantine } from "./verify.ts"
+import { ensureFreeSpace, promoteStaged, stagingPath } from "./staging.ts"
 
 async function isMpegTsFile(filePath: string): Promise<boolean> {
   try {
@@ -61,39 +32,17 @@ async function remuxToMp4(inputFile: string): Promise<void> {
     throw new Error("Downloaded MPEG-TS stream but ffmpeg is unavailable for remux")
   }
 
+  // The remuxed copy needs about as much room as the original
+  await ensureFreeSpace(path.dirname(inputFile), (await stat(inputFile)).size)
   const tmpFile = `${inputFile}.remux.mp4`
-  const proc = Bun.spawn(
-    [ffmpeg, "-hide_banner", "-y", "-i", inputFile, "-c", "copy", "-movflags", "+faststart", tmpFile],
-    { stdio: ["inherit", "inherit", "inherit"] }
-  )
-  const code = await proc.exited
+  const code = await spawnLogged([ffmpeg, "-hide_banner", "-y", "-i", inputFile, "-c", "copy", "-movflags", "+faststart", tmpFile])
   if (code !== 0) {
+    await rm(tmpFile, { force: true })
     throw new Error(`ffmpeg remux exited with code ${code}`)
   }
 
-  await Bun.write(inputFile, Bun.file(tmpFile))
-  await Bun.file(tmpFile).delete()
-  console.log(`Remuxed MPEG-TS to MP4: ${inputFile}`)
-}
-
-export async function resolveYtDlpBinary(): Promise<string> {
-  const override = process.env.YTDLP_BIN
-  if (override && override.length > 0) return override
-
-  const baseNames = ["yt-dlp", "yt-dlp_linux", "yt-dlp_linux_aarch64"]
-  const fromEnvPath = process.env.PATH?.split(":") ?? []
-  const misePaths = [
-    `${process.env.HOME}/.local/share/mise/shims`,
-    `${process.env.HOME}/.local/share/mise/installs/yt-dlp/latest`,
-  ]
-  const searchDirs = [...fromEnvPath, ...misePaths]
-  const candidates = [
-    ...baseNames,
-    ...searchDirs.flatMap((dir) => baseNames.map((n) => `${dir}/${n}`)),
-  ]
-  const candidate = await findExecutable(candidates)
-  if (candidate) return candidate
-  throw new Error("Could not find yt-dlp executable (tried: yt-dlp, yt-dlp_linux). Set YTDLP_BIN to override.")
+  await rename(tmpFile, inputFile)
+  log.info(`Remuxed MPEG-TS to MP4: ${inputFile}`)
 }
 
 export async function ensureDirForFile(filePath: string): Promise<void> {
@@ -110,113 +59,153 @@ export async function fileExists(filePath: string): Promise<boolean> {
   }
 }
 
-export async function sleep(ms: number): Promise<void> {
-  await new Promise((r) => setTimeout(r, ms))
-}
-
-async function resolveDownloadUrl(url: string): Promise<string> {
-  if (isUqloadEmbedUrl(url)) {
-    const resolved = await resolveUqloadEmbed(url)
-    console.log(`Resolved uqload embed -> ${resolved}`)
-    return resolved
-  }
-  if (isVidzyEmbed(url)) {
-    const resolved = await resolveVidzyEmbed(url)
-    console.log(`Resolved vidzy embed -> ${resolved}`)
-    return resolved
-  }
-  return url
-}
-
-export async function runYtDlp(url: string, outputFile: string, opts?: { noOverwrite?: boolean; noContinue?: boolean }): Promise<void> {
-  const outDir = path.dirname(outputFile)
-  await mkdir(outDir, { recursive: true })
-  const bin = await resolveYtDlpBinary()
-  const downloadUrl = await resolveDownloadUrl(url)
-  const args = [
-    bin,
-    ...getPluginDirsFlag(),
-    "-o",
-    outputFile,
-    "--merge-output-format",
-    "mp4",
-  ]
-
-  if (isUqloadEmbedUrl(url) || downloadUrl.includes("uqload.")) {
-    args.push("--add-header", "Referer:https://uqload.is/", "--add-header", "Origin:https://uqload.is")
-  } else if (isVidzyEmbed(url) || downloadUrl.includes("vidzy.")) {
-    args.push("--add-header", "Referer:https://vidzy.cc/", "--add-header", "Origin:https://vidzy.cc")
-  }
-
-  const ffmpeg = await resolveFfmpegBinary()
-  if (ffmpeg) {
-    args.push("--ffmpeg-location", ffmpeg)
-  }
-  if (isHlsUrl(downloadUrl)) {
-    args.push("--downloader", "ffmpeg", "--hls-use-mpegts", "--remux-video", "mp4")
-  }
-
-  args.push(downloadUrl)
-  if (opts?.noOverwrite) args.splice(3, 0, "--no-overwrites")
-  if (opts?.noContinue) args.push("--no-continue")
-  args.push("--no-part", "--restrict-filenames")
-
-  const proc = Bun.spawn(args, { stdio: ["inherit", "inherit", "inherit"] })
-  const code = await proc.exited
-  if (code !== 0) {
-    throw new Error(`${bin} exited with code ${code} for ${url}`)
+// Resolves early when `signal` aborts
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", done)
+      resolve()
+    }
+    signal?.addEventListener("abort", done, { once: true })
+  })
+}
+
+export interface ResolvedStream {
+  url: string // Direct media URL or HLS playlist
+  headers: Record<string, string>
+  variants: HlsVariant[] // Renditions of an HLS master playlist; empty for single-rendition streams
+  subtitles: SubtitleTrack[]
+}
+
+// Resolve an embed to its stream and, for HLS masters, list the available variants
+export async function resolveStream(url: string): Promise<ResolvedStream> {
+  const { url: streamUrl, headers, subtitles = [] } = await resolveEmbed(url)
+  let variants: HlsVariant[] = []
+  if (isHlsUrl(streamUrl)) {
+    const playlist = await fetchPlaylist(streamUrl, headers)
+    if (playlist.kind === "master") variants = playlist.variants
+  }
+  return { url: streamUrl, headers, variants, subtitles }
+}
+
+export interface DownloadOptions {
+  backend?: string // Backend name or "auto" (see backends/index.ts)
+  hostLimiter?: HostLimiter // Caps parallel downloads per host
+  quality?: QualitySpec // Variant selection for HLS masters (default: best)
+  subtitles?: boolean // Save the player's subtitle tracks as .srt sidecars (default: true)
+  muxSubtitles?: boolean // Also embed them in the MP4
+  verify?: boolean // Check the finished file with ffprobe, quarantining it on failure (default: true)
+  onEvent?: (event: DownloadEvent) => void // Progress of this one download (see --json)
+  signal?: AbortSignal // Cancels the download; downloadWithRetries then returns null
+}
+
+// What happens while one file downloads; jobs.ts adds the job key
+export type DownloadEvent =
+  | { event: "resolving"; host: string; url: string; language?: string; attempt: number }
+  | ({ event: "progress" } & DownloadProgress)
+  | { event: "sourceFailed"; host: string; url: string; attempt: number; error: string }
+
+// Resolve the embed once, pick the variant, then let the selected backend fetch the stream.
+// Everything is written to the staging folder and moved to `outputFile` once it passed the checks.
+export async function downloadSource(url: string, outputFile: string, opts?: DownloadOptions): Promise<void> {
+  const stream = await resolveStream(url)
+  let downloadUrl = stream.url
+  if (stream.variants.length > 0) {
+    const variant = selectVariant(stream.variants, opts?.quality ?? { kind: "best" })
+    if (variant) {
+      log.info(`Selected variant ${formatVariant(variant)} of ${stream.variants.length}`)
+      downloadUrl = variant.url
+    }
   }
 
-  if (await isMpegTsFile(outputFile)) {
-    await remuxToMp4(outputFile)
+  const backend = pickBackend(downloadUrl, opts?.backend)
+  log.info(`Using ${backend.name} backend`)
+
+  const staged = stagingPath(outputFile)
+  await ensureDirForFile(staged)
+  // A staged video from an interrupted run is incomplete. The http and HLS backends resume from their own
+  // part files; aria2 resumes into the video itself, which its .aria2 control file marks as unfinished.
+  if (!(await fileExists(`${staged}.aria2`))) await rm(staged, { force: true })
+  await backend.download({
+    url: downloadUrl,
+    sourceUrl: url,
+    outputFile: staged,
+    headers: stream.headers,
+    onProgress: opts?.onEvent && ((progress) => opts.onEvent!({ event: "progress", ...progress })),
+    signal: opts?.signal,
+  })
+  if (await isMpegTsFile(staged)) {
+    await remuxToMp4(staged)
+  }
+  // A broken file counts as a failed source, so the next mirror is tried
+  if (opts?.verify !== false) {
+    const problems = await verifyOrQuarantine(staged, outputFile)
+    if (problems) throw new Error(`downloaded file failed verification (${problems.join(", ")})`)
+  }
+
+  // Subtitles are a bonus: failing to fetch or mux them never fails the download
+  if (opts?.subtitles !== false && stream.subtitles.length > 0) {
+    const saved = await saveSubtitles(stream.subtitles, staged, stream.headers)
+    if (opts?.muxSubtitles) {
+      await muxSubtitles(staged, saved).catch((err) =>
+        log.warn(`Could not mux subtitles: ${err instanceof Error ? err.message : String(err)}`)
+      )
+    }
   }
+  await promoteStaged(staged, outputFile)
 }
 
-export async function downloadWithRetries(url: string, outputFile: string, attempts = 3): Promise<boolean> {
-  const exists = await fileExists(outputFile)
-  if (exists) {
-    console.log(`Skipping existing file: ${outputFile}`)
-    return true
+// Try each source in order; when a host fails, move on to the next mirror.
+// A full pass over every source counts as one attempt, with backoff between passes.
+// Returns the source that produced the file, or null when every attempt failed or it was cancelled.
+export async function downloadWithRetries(
+  sources: EpisodeSource[],
+  outputFile: string,
+  attempts = 3,
+  opts?: DownloadOptions
+): Promise<EpisodeSource | null> {
+  if (sources.length === 0) {
+    log.error(`No sources available for ${outputFile}`)
+    return null
   }
 
   let lastError: unknown
   for (let i = 0; i < attempts; i += 1) {
-    try {
-      await runYtDlp(url, outputFile, { noOverwrite: true, noContinue: true })
-      return true
-    } catch (err) {
-      lastError = err
+    for (const [j, source] of sources.entries()) {
+      const { host, url, language } = source
+      if (opts?.signal?.aborted) return null
+      opts?.onEvent?.({ event: "resolving", host, url, language, attempt: i + 1 })
+      try {
+        const run = () => downloadSource(url, outputFile, opts)
+        await (opts?.hostLimiter ? opts.hostLimiter.run(host, run) : run())
+        return source
+      } catch (err) {
+        if (opts?.signal?.aborted) {
+          log.warn(`Download of ${outputFile} cancelled`)
+          return null
+        }
+        lastError = err
+        const error = err instanceof Error ? err.message : String(err)
+        opts?.onEvent?.({ event: "sourceFailed", host, url, attempt: i + 1, error })
+        // The stream URL may have expired or been revoked; resolve the embed again next time
+        await forgetResolution(url)
+        const next = sources[j + 1]
+        const hint = next ? ` Falling back to ${next.host}${next.language ? ` [${next.language}]` : ""}...` : ""
+        log.warn(`Download from ${host} failed: ${error}.${hint}`)
+      }
+    }
+    if (i + 1 < attempts) {
       const delayMs = 5000 * Math.pow(2, i)
-      console.warn(`Download failed (attempt ${i + 1}/${attempts}): ${err instanceof Error ? err.message : String(err)}. Retrying in ${Math.round(delayMs / 1000)}s...`)
-      await sleep(delayMs)
+      log.warn(`All ${sources.length} source(s) failed (attempt ${i + 1}/${attempts}). Retrying in ${Math.round(delayMs / 1000)}s...`)
+      await sleep(delayMs, opts?.signal)
     }
   }
-  console.error(`Giving up after ${attempts} attempts for ${url}: ${lastError instanceof Error ? lastError.message : String(lastError)}`)
-  return false
-}
-
-// Jellyfin friendly paths
-export function buildOutputPath(baseDir: string, show: string, season?: number, episode?: number, ext = "mp4"): string {
-  const safeShow = show.replace(/[\\/:*?"<>|]/g, "-").trim()
-  if (season && episode) {
-    const seasonDir = path.join(baseDir, `${safeShow}`, `Season ${String(season).padStart(2, "0")}`)
-    const filename = `${safeShow} - S${String(season).padStart(2, "0")}E${String(episode).padStart(2, "0")}.${ext}`
-    return path.join(seasonDir, filename)
-  }
-  const filename = `${safeShow}.${ext}`
-  return path.join(baseDir, safeShow, filename)
-}
-
-export function isUqloadEmbed(url: string): boolean {
-  try {
-    const u = new URL(url)
-    return (
-      (u.hostname.includes("uqload.") || u.hostname === "uqload.cx" || u.hostname === "uqload.net") &&
-      u.pathname.startsWith("/embed-")
-    )
-  } catch {
-    return false
-  }
+  if (opts?.signal?.aborted) return null
+  log.error(`Giving up after ${attempts} attempts for ${outputFile}: ${lastError instanceof Error ? lastError.message : String(lastError)}`)
+  return null
 }
 
 // Parse names like "S01 E01" → { season: 1, episode: 1 }
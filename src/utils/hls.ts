@@ -0,0 +1,307 @@
+// Native HLS downloader: playlist parsing, parallel segment fetch and resume
+
+import path from "node:path"
+import { createDecipheriv } from "node:crypto"
+import { mkdir, readdir, rename, rm } from "node:fs/promises"
+import { fetchBytes, fetchHtml } from "./http.ts"
+import { selectVariant } from "./quality.ts"
+import { log } from "./log.ts"
+import type { DownloadProgress } from "../backends/base.ts"
+
+const DEFAULT_SEGMENT_CONCURRENCY = 6
+const SEGMENT_ATTEMPTS = 4
+
+export interface HlsVariant {
+  url: string
+  bandwidth: number
+  resolution?: { width: number; height: number }
+  codecs?: string
+}
+
+export interface HlsKey {
+  method: string // "NONE" | "AES-128" | ...
+  uri?: string
+  iv?: Uint8Array
+}
+
+export interface HlsSegment {
+  url: string
+  duration: number
+  sequence: number
+  key?: HlsKey
+}
+
+export type HlsPlaylist =
+  | { kind: "master"; variants: HlsVariant[] }
+  | { kind: "media"; segments: HlsSegment[]; initUrl?: string; targetDuration?: number }
+
+export interface HlsDownloadOptions {
+  headers?: Record<string, string>
+  concurrency?: number
+  onProgress?: (progress: DownloadProgress) => void
+  signal?: AbortSignal // Stops between segments
+}
+
+export function isHlsUrl(url: string): boolean {
+  return /\.m3u8(?:\?|$)/i.test(url)
+}
+
+// Parse `KEY=value,KEY="quoted, value"` attribute lists
+function parseAttributes(input: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  const regex = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g
+  let match
+  while ((match = regex.exec(input)) !== null) {
+    const key = match[1]
+    const raw = match[2] ?? ""
+    if (key) attrs[key] = raw.startsWith('"') ? raw.slice(1, -1) : raw
+  }
+  return attrs
+}
+
+function parseIv(hex: string | undefined): Uint8Array | undefined {
+  if (!hex) return undefined
+  const clean = hex.replace(/^0x/i, "").padStart(32, "0")
+  return Uint8Array.from(Buffer.from(clean, "hex"))
+}
+
+function sequenceIv(sequence: number): Uint8Array {
+  const iv = new Uint8Array(16)
+  new DataView(iv.buffer).setUint32(12, sequence)
+  return iv
+}
+
+export function parseM3u8(text: string, baseUrl: string): HlsPlaylist {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter((l) => l.length > 0)
+  if (lines[0] !== "#EXTM3U") {
+    throw new Error(`Not an HLS playlist: ${baseUrl}`)
+  }
+  const resolve = (uri: string) => new URL(uri, baseUrl).toString()
+
+  if (lines.some((l) => l.startsWith("#EXT-X-STREAM-INF"))) {
+    const variants: HlsVariant[] = []
+    for (let i = 0; i < lines.length; i += 1) {
+      const line = lines[i]!
+      if (!line.startsWith("#EXT-X-STREAM-INF:")) continue
+      const uri = lines[i + 1]
+      if (!uri || uri.startsWith("#")) continue
+      const attrs = parseAttributes(line.slice("#EXT-X-STREAM-INF:".length))
+      const res = attrs.RESOLUTION?.match(/^(\d+)x(\d+)$/)
+      variants.push({
+        url: resolve(uri),
+        bandwidth: Number(attrs.BANDWIDTH ?? 0) || 0,
+        resolution: res ? { width: Number(res[1]), height: Number(res[2]) } : undefined,
+        codecs: attrs.CODECS,
+      })
+    }
+    return { kind: "master", variants }
+  }
+
+  const segments: HlsSegment[] = []
+  let sequence = 0
+  let duration = 0
+  let key: HlsKey | undefined
+  let initUrl: string | undefined
+  let targetDuration: number | undefined
+
+  for (const line of lines) {
+    if (line.startsWith("#EXT-X-MEDIA-SEQUENCE:")) {
+      sequence = Number(line.split(":")[1]) || 0
+    } else if (line.startsWith("#EXT-X-TARGETDURATION:")) {
+      targetDuration = Number(line.split(":")[1]) || undefined
+    } else if (line.startsWith("#EXTINF:")) {
+      duration = parseFloat(line.slice("#EXTINF:".length)) || 0
+    } else if (line.startsWith("#EXT-X-KEY:")) {
+      const attrs = parseAttributes(line.slice("#EXT-X-KEY:".length))
+      const method = attrs.METHOD ?? "NONE"
+      key = method === "NONE" ? undefined : { method, uri: attrs.URI ? resolve(attrs.URI) : undefined, iv: parseIv(attrs.IV) }
+    } else if (line.startsWith("#EXT-X-MAP:")) {
+      const attrs = parseAttributes(line.slice("#EXT-X-MAP:".length))
+      if (attrs.URI) initUrl = resolve(attrs.URI)
+    } else if (!line.startsWith("#")) {
+      segments.push({ url: resolve(line), duration, sequence, key })
+      sequence += 1
+      duration = 0
+    }
+  }
+
+  return { kind: "media", segments, initUrl, targetDuration }
+}
+
+// Point every URI of a playlist (variants, renditions, segments, keys, init sections) somewhere
+// else; `rewrite` gets absolute URLs. Used by the streaming proxy.
+export function rewritePlaylist(text: string, baseUrl: string, rewrite: (url: string) => string): string {
+  const resolve = (uri: string) => rewrite(new URL(uri, baseUrl).toString())
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const trimmed = line.trim()
+      if (trimmed.length === 0) return line
+      if (!trimmed.startsWith("#")) return resolve(trimmed)
+      return line.replace(/URI="([^"]*)"/g, (_, uri: string) => `URI="${resolve(uri)}"`)
+    })
+    .join("\n")
+}
+
+export async function fetchPlaylist(url: string, headers?: Record<string, string>): Promise<HlsPlaylist> {
+  const text = await fetchHtml(url, { accept: "*/*", ...headers })
+  return parseM3u8(text, url)
+}
+
+// Follow a master playlist down to the media playlist of its best variant
+export async function fetchMediaPlaylist(
+  url: string,
+  headers?: Record<string, string>
+): Promise<{ url: string; playlist: Extract<HlsPlaylist, { kind: "media" }> }> {
+  const playlist = await fetchPlaylist(url, headers)
+  if (playlist.kind === "media") return { url, playlist }
+
+  const variant = selectVariant(playlist.variants, { kind: "best" })
+  if (!variant) throw new Error(`HLS master playlist has no variants: ${url}`)
+  const media = await fetchPlaylist(variant.url, headers)
+  if (media.kind !== "media") throw new Error(`Nested HLS master playlist is not supported: ${variant.url}`)
+  return { url: variant.url, playlist: media }
+}
+
+async function fetchWithRetries(url: string, headers?: Record<string, string>): Promise<Uint8Array> {
+  let lastError: unknown
+  for (let i = 0; i < SEGMENT_ATTEMPTS; i += 1) {
+    try {
+      return await fetchBytes(url, headers)
+    } catch (err) {
+      lastError = err
+      await new Promise((r) => setTimeout(r, 1000 * (i + 1)))
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error(String(lastError))
+}
+
+function decryptSegment(data: Uint8Array, key: Uint8Array, iv: Uint8Array): Uint8Array {
+  const decipher = createDecipheriv("aes-128-cbc", key, iv)
+  return new Uint8Array(Buffer.concat([decipher.update(data), decipher.final()]))
+}
+
+function segmentFileName(index: number): string {
+  return `${String(index).padStart(5, "0")}.ts`
+}
+
+// The parts directory lives next to the output file so an interrupted run picks up
+// the segments it already finished.
+export function hlsPartsDir(outputFile: string): string {
+  return `${outputFile}.hls-parts`
+}
+
+interface SegmentDirState {
+  playlist?: string // Media playlist URL without its query string (tokens change on every resolution)
+  segments?: number
+}
+
+async function prepareSegmentDir(dir: string, mediaUrl: string, segmentCount: number): Promise<Set<string>> {
+  await mkdir(dir, { recursive: true })
+  const stateFile = Bun.file(path.join(dir, "state.json"))
+  const state = (await stateFile.exists()) ? ((await stateFile.json().catch(() => null)) as SegmentDirState | null) : null
+
+  // Parts on disk from another variant or mirror (or with no state at all) belong to another stream;
+  // variants usually share their segment count, so the playlist URL decides
+  const { origin, pathname } = new URL(mediaUrl)
+  const current: SegmentDirState = { playlist: `${origin}${pathname}`, segments: segmentCount }
+  if (state?.playlist !== current.playlist || state?.segments !== current.segments) {
+    await rm(dir, { recursive: true, force: true })
+    await mkdir(dir, { recursive: true })
+  }
+  await Bun.write(stateFile, JSON.stringify(current))
+
+  const done = new Set<string>()
+  for (const name of await readdir(dir)) {
+    if (name.endsWith(".ts") && Bun.file(path.join(dir, name)).size > 0) done.add(name)
+  }
+  return done
+}
+
+export async function downloadHls(url: string, outputFile: string, opts?: HlsDownloadOptions): Promise<void> {
+  const headers = opts?.headers
+  const concurrency = Math.max(1, opts?.concurrency ?? DEFAULT_SEGMENT_CONCURRENCY)
+  const { url: mediaUrl, playlist } = await fetchMediaPlaylist(url, headers)
+  const { segments } = playlist
+  if (segments.length === 0) throw new Error(`HLS playlist has no segments: ${mediaUrl}`)
+
+  const dir = hlsPartsDir(outputFile)
+  const done = await prepareSegmentDir(dir, mediaUrl, segments.length)
+  if (done.size > 0) log.info(`Resuming HLS download: ${done.size}/${segments.length} segment(s) already on disk`)
+
+  const keys = new Map<string, Promise<Uint8Array>>()
+  const getKey = (uri: string) => {
+    let key = keys.get(uri)
+    if (!key) {
+      key = fetchWithRetries(uri, headers)
+      keys.set(uri, key)
+    }
+    return key
+  }
+
+  let completed = done.size
+  let lastReported = -1
+  let lastPercent = -1
+  const report = () => {
+    const pct = Math.floor((completed / segments.length) * 100)
+    if (pct > lastPercent) {
+      lastPercent = pct
+      opts?.onProgress?.({ percent: pct, segments: completed, totalSegments: segments.length })
+    }
+    const step = Math.floor(pct / 10) * 10
+    if (step > lastReported) {
+      lastReported = step
+      log.info(`HLS ${completed}/${segments.length} segments (${pct}%)`)
+    }
+  }
+
+  let next = 0
+  let failure: unknown
+  const worker = async () => {
+    while (next < segments.length && !failure) {
+      const index = next
+      next += 1
+      const segment = segments[index]!
+      const name = segmentFileName(index)
+      if (done.has(name)) continue
+
+      try {
+        opts?.signal?.throwIfAborted()
+        let data = await fetchWithRetries(segment.url, headers)
+        if (segment.key) {
+          if (segment.key.method !== "AES-128" || !segment.key.uri) {
+            throw new Error(`Unsupported HLS encryption ${segment.key.method} in ${mediaUrl}`)
+          }
+          const key = await getKey(segment.key.uri)
+          data = decryptSegment(data, key, segment.key.iv ?? sequenceIv(segment.sequence))
+        }
+
+        // Write to a temp name first so a killed run never leaves a truncated segment behind
+        const finalPath = path.join(dir, name)
+        await Bun.write(`${finalPath}.part`, data)
+        await rename(`${finalPath}.part`, finalPath)
+      } catch (err) {
+        failure = err
+        return
+      }
+      completed += 1
+      report()
+    }
+  }
+  report()
+  await Promise.all(Array.from({ length: Math.min(concurrency, segments.length) }, worker))
+  if (failure) {
+    const message = failure instanceof Error ? failure.message : String(failure)
+    throw new Error(`HLS download failed after ${completed}/${segments.length} segment(s): ${message}`)
+  }
+
+  const writer = Bun.file(outputFile).writer()
+  if (playlist.initUrl) writer.write(await fetchWithRetries(playlist.initUrl, headers))
+  for (let i = 0; i < segments.length; i += 1) {
+    writer.write(await Bun.file(path.join(dir, segmentFileName(i))).arrayBuffer())
+    await writer.flush()
+  }
+  await writer.end()
+
+  await rm(dir, { recursive: true, force: true })
+}
@@ -1,46 +1,278 @@
-// HTTP helpers
+// HTTP client shared by providers, resolvers and downloaders: timeouts, retries with
+// backoff, per-domain rate limiting, proxies, a persistent cookie jar and the response cache
 
-export async function getJson<T>(url: string, extraHeaders?: Record<string, string>): Promise<T> {
-  const res = await fetch(url, {
-    headers: {
-      accept: "application/json, text/plain, */*",
-      "user-agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-      ...extraHeaders,
-    },
-  })
-  if (!res.ok) {
-    const body = await res.text().catch(() => "")
-    throw new Error(`HTTP ${res.status} for ${url}: ${body?.slice(0, 200)}`)
+import { readCache, writeCache } from "./cache.ts"
+import { CookieJar } from "./cookies.ts"
+import { RateLimiter } from "./queue.ts"
+import { isSocksProxy, startSocksBridge } from "./socks.ts"
+import { log } from "./log.ts"
+
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+
+// Statuses worth another try: throttling, gateway errors and Cloudflare origin errors
+const RETRY_STATUS = new Set([408, 425, 429, 500, 502, 503, 504, 520, 521, 522, 523, 524])
+const MAX_RETRY_DELAY_MS = 60_000
+const MAX_REDIRECTS = 10
+
+export interface HttpSettings {
+  timeoutMs: number // Per attempt, until the body is read (headers only for streamed responses)
+  retries: number // Extra attempts after a network error, timeout or retryable status
+  proxy?: string // http://, https://, socks5:// or socks5h:// URL; HTTP(S)_PROXY are honoured otherwise
+  rateLimits: Record<string, number> // Requests per second per domain (and its subdomains); "*" for any other
+}
+
+const settings: HttpSettings = {
+  timeoutMs: 30_000,
+  retries: 3,
+  rateLimits: {},
+}
+
+const rateLimiter = new RateLimiter(settings.rateLimits)
+let cookieJar: CookieJar | undefined
+let socksBridge: Promise<string> | undefined
+
+export function configureHttp(changes: Partial<HttpSettings>): void {
+  Object.assign(settings, changes)
+  rateLimiter.setLimits(settings.rateLimits)
+  if (changes.proxy !== undefined) socksBridge = undefined
+}
+
+// Providers declare a default rate for their current domain; --rateLimit entries win
+export function setDefaultRateLimit(hostname: string, rate: number): void {
+  if (settings.rateLimits[hostname] !== undefined) return
+  settings.rateLimits = { ...settings.rateLimits, [hostname]: rate }
+  rateLimiter.setLimits(settings.rateLimits)
+}
+
+// Created on first use so XDG_CACHE_HOME changes made at startup are picked up
+function cookies(): CookieJar {
+  cookieJar ??= new CookieJar(CookieJar.defaultPath())
+  return cookieJar
+}
+
+// The configured proxy, or a SOCKS proxy from ALL_PROXY (Bun's fetch handles HTTP proxies
+// from the environment itself but rejects SOCKS URLs)
+export function proxyUrl(): string | undefined {
+  if (settings.proxy) return settings.proxy
+  const fromEnv = process.env.ALL_PROXY || process.env.all_proxy
+  return fromEnv && isSocksProxy(fromEnv) ? fromEnv : undefined
+}
+
+async function fetchProxy(): Promise<string | undefined> {
+  const proxy = proxyUrl()
+  if (!proxy || !isSocksProxy(proxy)) return proxy
+  socksBridge ??= startSocksBridge(proxy)
+  return socksBridge
+}
+
+// Errors that another attempt will not fix (4xx statuses, invalid bodies)
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message)
   }
-  return (await res.json()) as T
 }
 
-export async function fetchHtml(url: string): Promise<string> {
+interface RequestOptions {
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  timeoutMs?: number // Overrides the configured timeout and retries for this request
+  retries?: number
+}
+
+function retryAfterMs(res: Response): number | undefined {
+  const value = res.headers.get("retry-after")
+  if (!value) return undefined
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000
+  const date = Date.parse(value)
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined
+}
+
+function backoffMs(attempt: number): number {
+  return 1000 * Math.pow(2, attempt) + Math.floor(Math.random() * 250)
+}
+
+async function fetchOnce(url: string, opts: RequestOptions, signal: AbortSignal): Promise<Response> {
+  const headers: Record<string, string> = { "user-agent": USER_AGENT, ...opts.headers }
+  const cookie = await cookies().header(url)
+  if (cookie && !Object.keys(headers).some((h) => h.toLowerCase() === "cookie")) headers.cookie = cookie
+
   const res = await fetch(url, {
-    headers: {
-      accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-      "user-agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-    },
+    method: opts.method ?? "GET",
+    headers,
+    body: opts.body,
+    redirect: "manual",
+    signal,
+    proxy: await fetchProxy(),
   })
-  if (!res.ok) {
-    throw new Error(`HTTP ${res.status} for ${url}`)
+  await cookies().store(url, res.headers.getSetCookie())
+  return res
+}
+
+// Redirects are followed here rather than by fetch so cookies set along the way are kept
+async function fetchFollowingRedirects(url: string, opts: RequestOptions, signal: AbortSignal): Promise<Response> {
+  let current = url
+  let request = opts
+  for (let i = 0; i <= MAX_REDIRECTS; i += 1) {
+    if (i > 0) await rateLimiter.wait(new URL(current).hostname)
+    const res = await fetchOnce(current, request, signal)
+    const location = res.headers.get("location")
+    if (res.status < 300 || res.status >= 400 || !location) return res
+
+    await res.body?.cancel().catch(() => {})
+    current = new URL(location, current).toString()
+    if (res.status === 303 || ((res.status === 301 || res.status === 302) && request.method === "POST")) {
+      request = { ...request, method: "GET", body: undefined }
+    }
   }
-  return await res.text()
+  throw new HttpError(`Too many redirects for ${url}`)
 }
 
-export async function postForm(url: string, data: Record<string, string>): Promise<string> {
-  const body = new URLSearchParams(data)
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "content-type": "application/x-www-form-urlencoded",
-      accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-      "user-agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-    },
-    body: body.toString(),
+// Run one request with retries. `read` consumes the response inside the attempt's timeout;
+// anything it throws other than an HttpError counts as a failed attempt.
+async function send<T>(url: string, opts: RequestOptions, read: (res: Response) => Promise<T>): Promise<T> {
+  const hostname = new URL(url).hostname
+  const timeoutMs = opts.timeoutMs ?? settings.timeoutMs
+  const retries = opts.retries ?? settings.retries
+  for (let attempt = 0; ; attempt += 1) {
+    // Waiting for a rate-limit slot does not count against the timeout
+    await rateLimiter.wait(hostname)
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s`)), timeoutMs)
+    let delay: number
+    try {
+      const res = await fetchFollowingRedirects(url, opts, controller.signal)
+      if (!RETRY_STATUS.has(res.status) || attempt >= retries) return await read(res)
+      await res.body?.cancel().catch(() => {})
+      delay = Math.min(retryAfterMs(res) ?? backoffMs(attempt), MAX_RETRY_DELAY_MS)
+      log.warn(`HTTP ${res.status} for ${url}, retrying in ${Math.ceil(delay / 1000)}s...`)
+    } catch (err) {
+      if (err instanceof HttpError) throw err
+      const message = `${err instanceof Error ? err.message : String(err)} (${url})`
+      if (attempt >= retries) throw new Error(message)
+      delay = backoffMs(attempt)
+      log.warn(`${message}, retrying in ${Math.ceil(delay / 1000)}s...`)
+    } finally {
+      clearTimeout(timer)
+    }
+    await new Promise((r) => setTimeout(r, delay))
+  }
+}
+
+async function ensureOk(res: Response, url: string, opts?: { method?: string; showBody?: boolean }): Promise<void> {
+  if (res.ok) return
+  const target = opts?.method ? `${opts.method} ${url}` : url
+  if (!opts?.showBody) {
+    await res.body?.cancel().catch(() => {})
+    throw new HttpError(`HTTP ${res.status} for ${target}`, res.status)
+  }
+  const body = await res.text().catch(() => "")
+  throw new HttpError(`HTTP ${res.status} for ${target}: ${body.slice(0, 200)}`, res.status)
+}
+
+// Provider lookups opt into the response cache by endpoint type. Episode lists change when
+// new episodes air, so they expire sooner than title pages.
+export type CacheKind = "search" | "title" | "episodes" | "embed"
+
+export const CACHE_TTL_MS: Record<CacheKind, number> = {
+  search: 60 * 60 * 1000,
+  title: 12 * 60 * 60 * 1000,
+  episodes: 60 * 60 * 1000,
+  embed: 10 * 60 * 1000, // Upper bound; see resolvers/index.ts for the stream URL's own expiry
+}
+
+export function cacheKey(method: string, url: string, body?: string): string {
+  return `${method} ${url}\n${body ?? ""}`
+}
+
+// Only successful response bodies are cached; failures always reach the network next time
+async function withCache(key: string, kind: CacheKind | undefined, load: () => Promise<string>): Promise<string> {
+  if (!kind) return load()
+  const cached = await readCache(key)
+  if (cached !== null) return cached
+  const body = await load()
+  await writeCache(key, body, Date.now() + CACHE_TTL_MS[kind])
+  return body
+}
+
+export async function getJson<T>(url: string, extraHeaders?: Record<string, string>, cache?: CacheKind): Promise<T> {
+  const text = await withCache(cacheKey("GET", url), cache, () =>
+    send(url, { headers: { accept: "application/json, text/plain, */*", ...extraHeaders } }, async (res) => {
+      await ensureOk(res, url, { showBody: true })
+      const body = await res.text()
+      // Parse before caching so an HTML error page served with 200 is never stored
+      try {
+        JSON.parse(body)
+      } catch {
+        throw new HttpError(`Invalid JSON from ${url}: ${body.slice(0, 200)}`, res.status)
+      }
+      return body
+    })
+  )
+  return JSON.parse(text) as T
+}
+
+export async function fetchHtml(url: string, extraHeaders?: Record<string, string>, cache?: CacheKind): Promise<string> {
+  const headers = { accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8", ...extraHeaders }
+  return withCache(cacheKey("GET", url), cache, () =>
+    send(url, { headers }, async (res) => {
+      await ensureOk(res, url)
+      return res.text()
+    })
+  )
+}
+
+export async function postForm(url: string, data: Record<string, string>, cache?: CacheKind): Promise<string> {
+  const body = new URLSearchParams(data).toString()
+  const headers = {
+    "content-type": "application/x-www-form-urlencoded",
+    accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+  }
+  return withCache(cacheKey("POST", url, body), cache, () =>
+    send(url, { method: "POST", headers, body }, async (res) => {
+      await ensureOk(res, url, { method: "POST" })
+      return res.text()
+    })
+  )
+}
+
+// Raw response for streaming bodies; the caller reads or cancels the body. The timeout
+// only covers the response headers so long downloads are not cut off.
+export async function fetchResponse(url: string, extraHeaders?: Record<string, string>): Promise<Response> {
+  return send(url, { headers: { accept: "*/*", ...extraHeaders } }, async (res) => {
+    await ensureOk(res, url)
+    return res
   })
-  if (!res.ok) {
-    throw new Error(`HTTP ${res.status} for POST ${url}`)
+}
+
+export async function fetchBytes(url: string, extraHeaders?: Record<string, string>): Promise<Uint8Array> {
+  return send(url, { headers: { accept: "*/*", ...extraHeaders } }, async (res) => {
+    await ensureOk(res, url)
+    return new Uint8Array(await res.arrayBuffer())
+  })
+}
+
+// Single quick request used to check whether a site is up. Returns the status and the URL
+// after redirects (sites often redirect a dead domain to the new one), or null when unreachable.
+// With `expect`, the body is read and `matched` tells whether it looks like the real site.
+export async function probe(
+  url: string,
+  timeoutMs = 8000,
+  expect?: RegExp
+): Promise<{ status: number; url: string; matched?: boolean } | null> {
+  try {
+    return await send(url, { headers: { accept: "text/html,*/*" }, timeoutMs, retries: 0 }, async (res) => {
+      if (!expect) {
+        await res.body?.cancel().catch(() => {})
+        return { status: res.status, url: res.url || url }
+      }
+      return { status: res.status, url: res.url || url, matched: expect.test(await res.text()) }
+    })
+  } catch {
+    return null
   }
-  return await res.text()
 }
@@ -0,0 +1,321 @@
+// Runs queued episode jobs through the download pipeline and records them in the manifest
+
+import path from "node:path"
+import { rm, stat } from "node:fs/promises"
+import type { Episode, EpisodeSource, Title } from "../types.ts"
+import {
+  downloadWithRetries,
+  ensureDirForFile,
+  fileExists,
+  type DownloadEvent,
+  type DownloadOptions,
+} from "./download.ts"
+import { JobManifest, jobKey, sha256File, type JobRecord } from "./manifest.ts"
+import { checkHostLimits, DEFAULT_HOST_LIMITS, HostLimiter, parseHostLimits, runQueue } from "./queue.ts"
+import type { OptionSchema, Options } from "./args.ts"
+import { checkQuality, parseQuality } from "./quality.ts"
+import { isBackendName, listBackends } from "../backends/index.ts"
+import { DEFAULT_LANGUAGES, applyLanguagePreference, splitByLanguage } from "./language.ts"
+import { buildOutputPath, type NamingTemplate, type NamingVars } from "./naming.ts"
+import { log, withLogPrefix } from "./log.ts"
+import { isJsonOutput, printEvent } from "./output.ts"
+import { verifyOrQuarantine } from "./verify.ts"
+import { cleanStaging, ensureFreeSpace } from "./staging.ts"
+
+export interface RunJobsOptions extends Omit<DownloadOptions, "onEvent"> {
+  concurrency: number
+  attempts?: number
+  onEvent?: (event: JobEvent) => void
+}
+
+// What a run reports (one NDJSON line each with --json); download events carry their job's key
+export type JobEvent =
+  | {
+      event: "queued"
+      key: string
+      name: string
+      showName: string
+      season?: number
+      episode?: number
+      language?: string
+      outputPath: string
+      sources: number
+    }
+  | { event: "skipped"; key: string; name: string; outputPath: string }
+  | { event: "quarantined"; key: string; name: string; outputPath: string; problems: string[] }
+  | (DownloadEvent & { key: string })
+  | { event: "done"; key: string; name: string; outputPath: string; size?: number; source: EpisodeSource }
+  | { event: "failed"; key: string; name: string; outputPath: string; error: string; hosts: string[] }
+  | { event: "cancelled"; key: string; name: string; outputPath: string }
+  | { event: "summary"; done: number; failed: number; skipped: number; cancelled: number }
+
+// Options shared by the commands that run jobs (download, jobs retry, watch run)
+export const RUN_JOB_OPTIONS = {
+  backend: {
+    type: "string",
+    alias: "b",
+    placeholder: listBackends().join("|"),
+    default: "auto",
+    description: "Download backend",
+    validate: (v: string) => (isBackendName(v) ? undefined : `unknown backend ${v} (available: ${listBackends().join(", ")})`),
+  },
+  concurrency: { type: "integer", alias: "c", placeholder: "N", min: 1, default: "1", description: "Downloads running at once" },
+  retries: {
+    type: "integer",
+    placeholder: "N",
+    min: 0,
+    default: "2",
+    description: "Extra passes over every mirror after the first fails",
+  },
+  hostLimit: {
+    type: "string",
+    placeholder: "host=N,...",
+    default: "uqload=1",
+    description: "Downloads at once per host",
+    validate: checkHostLimits,
+  },
+  quality: {
+    type: "string",
+    placeholder: "best|worst|720p|<=480p",
+    default: "best",
+    description: "HLS variant to download",
+    validate: checkQuality,
+  },
+  noSubtitles: { type: "boolean", description: "Do not save the player's subtitle tracks" },
+  muxSubtitles: { type: "boolean", description: "Also embed subtitles in the MP4" },
+  noVerify: { type: "boolean", description: "Do not check files with ffprobe (after downloading and before skipping)" },
+} as const satisfies OptionSchema
+
+export function parseRunJobsOptions(opts: Options<typeof RUN_JOB_OPTIONS>): RunJobsOptions {
+  return {
+    concurrency: opts.concurrency ?? 1,
+    // --retries counts extra passes over every source after the first
+    attempts: (opts.retries ?? 2) + 1,
+    backend: opts.backend ?? "auto",
+    hostLimiter: new HostLimiter({ ...DEFAULT_HOST_LIMITS, ...parseHostLimits(opts.hostLimit) }),
+    quality: parseQuality(opts.quality ?? "best")!,
+    subtitles: opts.noSubtitles !== true,
+    muxSubtitles: opts.muxSubtitles === true,
+    verify: opts.noVerify !== true,
+    ...(isJsonOutput() ? { onEvent: printEvent } : {}),
+  }
+}
+
+export interface JobFailure {
+  record: JobRecord
+  hosts: string
+  error: string
+}
+
+export function jobLabel(job: { season?: number; episode?: number; name: string }): string {
+  return job.season && job.episode
+    ? `S${String(job.season).padStart(2, "0")}E${String(job.episode).padStart(2, "0")}`
+    : job.name
+}
+
+export interface BuildJobOptions {
+  languages?: string[] // Preference order; defaults to vf, vostfr, vo
+  multiLang?: boolean // One language-tagged file per wanted language instead of the best one
+  template?: NamingTemplate
+}
+
+export function buildJobRecords(
+  providerName: string,
+  title: Pick<Title, "id" | "name" | "year">,
+  episodes: Episode[],
+  outDir: string,
+  opts?: BuildJobOptions
+): JobRecord[] {
+  const languages = opts?.languages ?? [...DEFAULT_LANGUAGES]
+  const records: JobRecord[] = []
+
+  for (const ep of episodes) {
+    let versions: Array<{ version: Episode; tag?: string }>
+    if (opts?.multiLang) {
+      versions = splitByLanguage(ep, languages).map((version) => ({ version, tag: version.language }))
+    } else {
+      const preferred = applyLanguagePreference(ep, languages)
+      versions = preferred ? [{ version: preferred }] : []
+    }
+    if (versions.length === 0) {
+      log.warn(`${ep.name}: no source in ${languages.join(", ")}`)
+    }
+
+    for (const { version, tag } of versions) {
+      const vars: NamingVars = {
+        show: title.name,
+        year: title.year,
+        season: version.season,
+        episode: version.episode,
+        title: version.title,
+        lang: tag,
+        provider: providerName,
+        id: title.id,
+      }
+      records.push({
+        key: jobKey(providerName, title.id, version, tag),
+        provider: providerName,
+        titleId: title.id,
+        showName: title.name,
+        name: tag ? `${version.name} [${tag}]` : version.name,
+        season: version.season,
+        episode: version.episode,
+        language: tag,
+        outputPath: buildOutputPath(outDir, vars, "mp4", opts?.template),
+        sources: version.sources,
+        status: "pending",
+        attempts: 0,
+        updatedAt: new Date().toISOString(),
+      })
+    }
+  }
+  return records
+}
+
+async function sizeOf(filePath: string): Promise<number | undefined> {
+  try {
+    return (await stat(filePath)).size
+  } catch {
+    return undefined
+  }
+}
+
+// A file on disk that fails the ffprobe check is quarantined so the job downloads it again
+async function stillPlayable(record: JobRecord, opts: RunJobsOptions): Promise<boolean> {
+  if (opts.verify === false) return true
+  const problems = await verifyOrQuarantine(record.outputPath)
+  if (!problems) return true
+  const { key, name, outputPath } = record
+  opts.onEvent?.({ event: "quarantined", key, name, outputPath, problems })
+  return false
+}
+
+// A job is complete when the manifest says so and the file on disk still has the recorded size and plays
+export async function isComplete(manifest: JobManifest, record: JobRecord, opts: RunJobsOptions): Promise<boolean> {
+  const previous = manifest.get(record.key)
+  if (previous?.status !== "done") return false
+  const size = await sizeOf(record.outputPath)
+  if (size === undefined || size !== previous.size) return false
+  return stillPlayable(record, opts)
+}
+
+async function runJob(manifest: JobManifest, record: JobRecord, opts: RunJobsOptions): Promise<JobFailure | null> {
+  const { key, name, outputPath } = record
+  if (opts.signal?.aborted) {
+    opts.onEvent?.({ event: "cancelled", key, name, outputPath })
+    return null
+  }
+  if (await isComplete(manifest, record, opts)) {
+    log.info(`Skipping completed file: ${outputPath}`)
+    opts.onEvent?.({ event: "skipped", key, name, outputPath })
+    return null
+  }
+
+  // Downloads are staged elsewhere, so a file here for an unfinished job predates staging or was left by hand
+  await rm(outputPath, { force: true })
+  await ensureDirForFile(outputPath)
+
+  const attempts = (manifest.get(key)?.attempts ?? 0) + 1
+  await manifest.upsert({ ...record, status: "downloading", attempts, error: undefined })
+
+  const fail = async (error: string): Promise<JobFailure> => {
+    const failed = await manifest.update(key, { status: "failed", error })
+    const hosts = record.sources.map((s) => s.host)
+    opts.onEvent?.({ event: "failed", key, name, outputPath, error, hosts })
+    return { record: failed, hosts: hosts.join(", ") || "no sources", error }
+  }
+  // A full disk fails every mirror the same way; no point in trying them
+  try {
+    await ensureFreeSpace(path.dirname(outputPath))
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    log.error(message)
+    return fail(message)
+  }
+  log.info(`Downloading: ${name} -> ${outputPath}`)
+
+  // The last mirror error ends up in the manifest and the failure summary
+  let lastError: string | undefined
+  const onEvent = (event: DownloadEvent) => {
+    if (event.event === "sourceFailed") lastError = `${event.host}: ${event.error}`
+    opts.onEvent?.({ ...event, key })
+  }
+  const source = await downloadWithRetries(record.sources, outputPath, opts.attempts ?? 3, { ...opts, onEvent })
+  if (!source && opts.signal?.aborted) {
+    // Like an interrupted run: the next run picks up the staged parts
+    await manifest.update(key, { status: "failed", error: "cancelled" })
+    opts.onEvent?.({ event: "cancelled", key, name, outputPath })
+    return null
+  }
+  if (!source) return fail(`download failed on every source after retries${lastError ? ` (last: ${lastError})` : ""}`)
+
+  const size = await sizeOf(outputPath)
+  const checksum = await sha256File(outputPath)
+  await manifest.update(key, { status: "done", source, size, checksum })
+  opts.onEvent?.({ event: "done", key, name, outputPath, size, source })
+  return null
+}
+
+// Queue every record (in order) and return the failures, in queue order
+export async function runJobs(manifest: JobManifest, records: JobRecord[], opts: RunJobsOptions): Promise<JobFailure[]> {
+  // Files downloaded before the manifest existed are adopted as complete if they play
+  for (const record of records) {
+    if (manifest.get(record.key)) continue
+    if ((await fileExists(record.outputPath)) && (await stillPlayable(record, opts))) {
+      await manifest.upsert({ ...record, status: "done", size: await sizeOf(record.outputPath) })
+    } else {
+      await manifest.upsert({ ...record, status: "pending" })
+    }
+  }
+
+  // Staged files of this run's unfinished downloads are kept for resuming; other leftovers go
+  const unfinished = records.filter((r) => manifest.get(r.key)?.status !== "done").map((r) => r.outputPath)
+  await cleanStaging(records.map((r) => r.outputPath), new Set(unfinished))
+
+  for (const { key, name, showName, season, episode, language, outputPath, sources } of records) {
+    const queued = { key, name, showName, season, episode, language, outputPath, sources: sources.length }
+    opts.onEvent?.({ event: "queued", ...queued })
+  }
+
+  // Counted for the closing summary event
+  let skipped = 0
+  let cancelled = 0
+  const onEvent = (event: JobEvent) => {
+    if (event.event === "skipped") skipped += 1
+    if (event.event === "cancelled") cancelled += 1
+    opts.onEvent?.(event)
+  }
+
+  const failures: Array<JobFailure & { index: number }> = []
+  await runQueue(records, opts.concurrency, async (record, index) => {
+    const job = async () => {
+      try {
+        const failure = await runJob(manifest, record, { ...opts, onEvent })
+        if (failure) failures.push({ ...failure, index })
+      } catch (err) {
+        // A filesystem or manifest error fails this job only; the other workers keep going
+        const error = err instanceof Error ? err.message : String(err)
+        log.error(`${record.name}: ${error}`)
+        const failed = await manifest.update(record.key, { status: "failed", error }).catch(() => record)
+        const hosts = record.sources.map((s) => s.host)
+        onEvent({ event: "failed", key: record.key, name: record.name, outputPath: record.outputPath, error, hosts })
+        failures.push({ record: failed, hosts: hosts.join(", ") || "no sources", error, index })
+      }
+    }
+    // Prefix output with the episode only when several downloads share the terminal
+    await (opts.concurrency > 1 ? withLogPrefix(jobLabel(record), job) : job())
+  })
+
+  const done = records.length - failures.length - skipped - cancelled
+  opts.onEvent?.({ event: "summary", done, failed: failures.length, skipped, cancelled })
+  return failures.sort((a, b) => a.index - b.index)
+}
+
+export function printFailureSummary(failures: JobFailure[]): void {
+  if (failures.length > 0) {
+    log.warn(`Completed with ${failures.length} failure(s):`)
+    for (const f of failures) log.warn(`- ${f.record.name} :: ${f.hosts} :: ${f.error}`)
+  } else {
+    log.info("All downloads completed.")
+  }
+}
@@ -0,0 +1,69 @@
+// Audio language normalisation and per-episode language preference
+
+import type { Episode, EpisodeSource } from "../types.ts"
+
+export const DEFAULT_LANGUAGES = ["vf", "vostfr", "vo"] as const
+
+// Map the labels used by the sites ("French", "VFF", "TrueFrench", "VOST", "English", ...)
+// onto vf / vostfr / vo. Unknown labels are returned lowercased.
+export function normalizeLanguage(raw: string | null | undefined): string | undefined {
+  if (!raw) return undefined
+  const value = raw.trim().toLowerCase()
+  if (value.length === 0) return undefined
+  if (/vost|sub/.test(value)) return "vostfr"
+  if (/^(vf|vff|vfq|vfi|fr|fre|fra|french|truefrench|francais|français)$/.test(value)) return "vf"
+  if (/^(vo|en|eng|english|original)$/.test(value)) return "vo"
+  return value
+}
+
+// Option validator for --lang
+export function checkLanguageList(val: string): string | undefined {
+  const unknown = val
+    .split(",")
+    .filter((s) => s.trim().length > 0)
+    .filter((s) => !(DEFAULT_LANGUAGES as readonly string[]).includes(normalizeLanguage(s) ?? ""))
+  if (unknown.length > 0) return `unknown language ${unknown.join(", ")} (expected ${DEFAULT_LANGUAGES.join(", ")})`
+  return parseLanguageList(val) ? undefined : `expected a list like ${DEFAULT_LANGUAGES.join(",")}`
+}
+
+export function parseLanguageList(val: string | boolean | undefined): string[] | undefined {
+  if (typeof val !== "string") return undefined
+  const langs = val
+    .split(",")
+    .map((s) => normalizeLanguage(s))
+    .filter((s): s is string => !!s)
+  return langs.length > 0 ? [...new Set(langs)] : undefined
+}
+
+// Order sources by language preference (host order is kept within a language).
+// Sources in other known languages are dropped; untagged ones and labels normalizeLanguage does not
+// know ("VF HD", "Multi") are kept as a last resort.
+export function orderSourcesByLanguage(sources: EpisodeSource[], languages: readonly string[]): EpisodeSource[] {
+  const known: readonly string[] = DEFAULT_LANGUAGES
+  const rank = (s: EpisodeSource) => {
+    if (!s.language || !known.includes(s.language)) return languages.length
+    const idx = languages.indexOf(s.language)
+    return idx >= 0 ? idx : -1
+  }
+  return sources
+    .map((source, i) => ({ source, i, r: rank(source) }))
+    .filter(({ r }) => r >= 0)
+    .sort((a, b) => a.r - b.r || a.i - b.i)
+    .map(({ source }) => source)
+}
+
+export function applyLanguagePreference(ep: Episode, languages: readonly string[]): Episode | null {
+  const sources = orderSourcesByLanguage(ep.sources, languages)
+  if (sources.length === 0) return null
+  return { ...ep, sources, language: sources[0]?.language }
+}
+
+// One entry per wanted language the episode is available in (strict: no untagged fallback)
+export function splitByLanguage(ep: Episode, languages: readonly string[]): Episode[] {
+  const versions: Episode[] = []
+  for (const language of languages) {
+    const sources = ep.sources.filter((s) => s.language === language)
+    if (sources.length > 0) versions.push({ ...ep, sources, language })
+  }
+  return versions
+}
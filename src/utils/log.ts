@@ -0,0 +1,62 @@
+// Job-aware logging: lines from concurrent downloads are prefixed with their job label
+
+import { AsyncLocalStorage } from "node:async_hooks"
+import { isJsonOutput } from "./output.ts"
+
+const jobLabel = new AsyncLocalStorage<string>()
+
+export function withLogPrefix<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  return jobLabel.run(label, fn)
+}
+
+export function currentLogPrefix(): string | undefined {
+  return jobLabel.getStore()
+}
+
+function format(message: string): string {
+  const label = jobLabel.getStore()
+  return label ? `[${label}] ${message}` : message
+}
+
+export const log = {
+  info(message: string): void {
+    // With --json, stdout is reserved for JSON
+    if (isJsonOutput()) console.error(format(message))
+    else console.log(format(message))
+  },
+  warn(message: string): void {
+    console.warn(format(message))
+  },
+  error(message: string): void {
+    console.error(format(message))
+  },
+}
+
+async function forwardLines(stream: ReadableStream<Uint8Array>, write: (line: string) => void): Promise<void> {
+  const decoder = new TextDecoder()
+  let buffer = ""
+  for await (const chunk of stream) {
+    buffer += decoder.decode(chunk, { stream: true })
+    const lines = buffer.split(/\r?\n|\r/)
+    buffer = lines.pop() ?? ""
+    for (const line of lines) if (line.trim().length > 0) write(line)
+  }
+  if (buffer.trim().length > 0) write(buffer)
+}
+
+// Spawn a child process. Outside a job its output goes straight to the terminal; inside
+// a job (or with --json) it is read line by line and prefixed so parallel downloads stay readable.
+// An aborted `signal` kills the process.
+export async function spawnLogged(args: string[], signal?: AbortSignal): Promise<number> {
+  if (!jobLabel.getStore() && !isJsonOutput()) {
+    const proc = Bun.spawn(args, { stdio: ["inherit", "inherit", "inherit"], signal })
+    return proc.exited
+  }
+
+  const proc = Bun.spawn(args, { stdio: ["ignore", "pipe", "pipe"], signal })
+  await Promise.all([
+    forwardLines(proc.stdout, (line) => log.info(line)),
+    forwardLines(proc.stderr, (line) => log.warn(line)),
+  ])
+  return proc.exited
+}
@@ -0,0 +1,107 @@
+// Per-output-directory job manifest: what was queued, what finished, and how
+
+import path from "node:path"
+import { rename } from "node:fs/promises"
+import type { EpisodeSource } from "../types.ts"
+
+export const MANIFEST_FILE = ".yopflix-jobs.json"
+
+export type JobStatus = "pending" | "downloading" | "done" | "failed"
+
+export interface JobRecord {
+  key: string
+  provider: string
+  titleId: string | number
+  showName: string
+  name: string
+  season?: number
+  episode?: number
+  language?: string // Set for language-tagged copies (multi-language mode)
+  outputPath: string
+  sources: EpisodeSource[] // Kept so `jobs retry` works without hitting the provider
+  status: JobStatus
+  attempts: number
+  source?: EpisodeSource // Mirror the finished file came from
+  size?: number
+  checksum?: string // sha256 of the finished file
+  error?: string
+  updatedAt: string
+}
+
+interface ManifestData {
+  version: 1
+  jobs: Record<string, JobRecord>
+}
+
+export function jobKey(
+  provider: string,
+  titleId: string | number,
+  ep: { season?: number; episode?: number; name: string },
+  language?: string
+): string {
+  const part = ep.season && ep.episode ? `S${ep.season}E${ep.episode}` : ep.name
+  return `${provider}:${titleId}:${part}${language ? `:${language}` : ""}`
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher("sha256")
+  for await (const chunk of Bun.file(filePath).stream()) {
+    hasher.update(chunk)
+  }
+  return hasher.digest("hex")
+}
+
+export class JobManifest {
+  private writing: Promise<void> = Promise.resolve()
+
+  private constructor(
+    readonly filePath: string,
+    private data: ManifestData
+  ) {}
+
+  static async load(outDir: string): Promise<JobManifest> {
+    const filePath = path.join(outDir, MANIFEST_FILE)
+    const file = Bun.file(filePath)
+    let data: ManifestData = { version: 1, jobs: {} }
+    if (await file.exists()) {
+      try {
+        data = (await file.json()) as ManifestData
+      } catch (err) {
+        throw new Error(`Corrupt job manifest ${filePath}: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+    return new JobManifest(filePath, data)
+  }
+
+  get(key: string): JobRecord | undefined {
+    return this.data.jobs[key]
+  }
+
+  list(): JobRecord[] {
+    return Object.values(this.data.jobs)
+  }
+
+  async upsert(record: Omit<JobRecord, "updatedAt">): Promise<JobRecord> {
+    const full = { ...record, updatedAt: new Date().toISOString() }
+    this.data.jobs[record.key] = full
+    await this.save()
+    return full
+  }
+
+  async update(key: string, patch: Partial<Omit<JobRecord, "key">>): Promise<JobRecord> {
+    const existing = this.data.jobs[key]
+    if (!existing) throw new Error(`Unknown job: ${key}`)
+    return this.upsert({ ...existing, ...patch })
+  }
+
+  // Writes are serialised and go through a temp file so a crash never truncates the manifest.
+  // A failed write is reported to its own caller only; the next save still runs.
+  save(): Promise<void> {
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      const tmp = `${this.filePath}.tmp`
+      await Bun.write(tmp, JSON.stringify(this.data, null, 2))
+      await rename(tmp, this.filePath)
+    })
+    return this.writing
+  }
+}
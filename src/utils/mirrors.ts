@@ -0,0 +1,169 @@
+// Mirror domains: providers list candidate base URLs, the first healthy one is used and
+// remembered in the cache directory so later runs start from it
+
+import path from "node:path"
+import { mkdir, rename } from "node:fs/promises"
+import { cacheDir } from "./paths.ts"
+import { currentConfig } from "./config.ts"
+import { HttpError, probe, setDefaultRateLimit } from "./http.ts"
+import { log } from "./log.ts"
+
+// A remembered mirror is trusted without probing for this long
+const TRUST_MS = 60 * 60 * 1000
+
+export interface RememberedMirror {
+  url: string
+  checkedAt: string
+}
+
+export interface MirrorStatus {
+  url: string
+  healthy: boolean
+  detail: string // HTTP status, redirect target or "unreachable"
+}
+
+function stateFile(): string {
+  return path.join(cacheDir(), "mirrors.json")
+}
+
+async function loadState(): Promise<Record<string, RememberedMirror>> {
+  const file = Bun.file(stateFile())
+  if (!(await file.exists())) return {}
+  return ((await file.json().catch(() => ({}))) as Record<string, RememberedMirror>) ?? {}
+}
+
+async function saveState(state: Record<string, RememberedMirror>): Promise<void> {
+  await mkdir(cacheDir(), { recursive: true })
+  const tmpPath = `${stateFile()}.${process.pid}.tmp`
+  await Bun.write(tmpPath, JSON.stringify(state, null, 2))
+  await rename(tmpPath, stateFile())
+}
+
+async function remember(provider: string, url: string): Promise<void> {
+  const state = await loadState()
+  state[provider] = { url, checkedAt: new Date().toISOString() }
+  await saveState(state)
+}
+
+function normalizeBase(url: string): string | null {
+  try {
+    const withScheme = /^https?:\/\//i.test(url) ? url : `https://${url}`
+    return new URL(withScheme).origin
+  } catch {
+    return null
+  }
+}
+
+
+export class MirrorSet {
+  private current: string | undefined
+  private resolving: Promise<string> | undefined
+
+  constructor(
+    readonly provider: string,
+    private readonly builtin: string[],
+    // probeMatch: text the probe page must contain; a parked domain answers 200 with something else
+    private readonly opts: { probePath?: string; probeMatch?: RegExp; rateLimit?: number } = {}
+  ) {}
+
+  // FRENCHSTREAM_MIRRORS=https://fs03.lol,https://fs04.lol and the config's "mirrors" entries
+  // are tried before the built-in list
+  async candidates(): Promise<string[]> {
+    const fromEnv = process.env[`${this.provider.toUpperCase()}_MIRRORS`]?.split(",") ?? []
+    const all = [...fromEnv, ...(currentConfig().mirrors[this.provider] ?? []), ...this.builtin]
+    const bases = all.map((u) => normalizeBase(u.trim())).filter((u): u is string => !!u)
+    return [...new Set(bases)]
+  }
+
+  async check(base: string): Promise<MirrorStatus & { base?: string }> {
+    const result = await probe(`${base}${this.opts.probePath ?? "/"}`, undefined, this.opts.probeMatch)
+    if (!result) return { url: base, healthy: false, detail: "unreachable" }
+    const landed = normalizeBase(result.url) ?? base
+    const moved = landed !== base ? ` -> ${landed}` : ""
+    const parked = result.status < 400 && result.matched === false
+    const healthy = result.status < 400 && !parked
+    const content = parked ? " (not the site)" : ""
+    return { url: base, healthy, detail: `HTTP ${result.status}${moved}${content}`, base: healthy ? landed : undefined }
+  }
+
+  // Probe every candidate (for the mirrors command)
+  async checkAll(): Promise<MirrorStatus[]> {
+    const statuses: MirrorStatus[] = []
+    for (const base of await this.candidates()) {
+      const { url, healthy, detail } = await this.check(base)
+      statuses.push({ url, healthy, detail })
+    }
+    return statuses
+  }
+
+  // The mirror remembered from an earlier run, if any
+  async remembered(): Promise<RememberedMirror | undefined> {
+    return (await loadState())[this.provider]
+  }
+
+  // Drop the remembered mirror so the next run probes the candidates again
+  async forget(): Promise<void> {
+    const state = await loadState()
+    if (!state[this.provider]) return
+    delete state[this.provider]
+    await saveState(state)
+    this.current = undefined
+    this.resolving = undefined
+  }
+
+  private async select(skip?: string): Promise<string> {
+    const candidates = await this.candidates()
+    const remembered = (await loadState())[this.provider]
+    if (remembered && remembered.url !== skip && Date.now() - Date.parse(remembered.checkedAt) < TRUST_MS) {
+      return remembered.url
+    }
+
+    const order = [remembered?.url, ...candidates].filter((u): u is string => !!u && u !== skip)
+    for (const base of [...new Set(order)]) {
+      const status = await this.check(base)
+      if (status.base) {
+        if (status.base !== base) log.info(`${this.provider}: ${base} moved to ${status.base}`)
+        await remember(this.provider, status.base)
+        return status.base
+      }
+      log.warn(`${this.provider}: mirror ${base} is down (${status.detail})`)
+    }
+    throw new Error(`${this.provider}: no healthy mirror (tried ${order.join(", ")}); set ${this.provider.toUpperCase()}_MIRRORS`)
+  }
+
+  private use(base: string): string {
+    this.current = base
+    if (this.opts.rateLimit) setDefaultRateLimit(new URL(base).hostname, this.opts.rateLimit)
+    return base
+  }
+
+  async baseUrl(): Promise<string> {
+    if (this.current) return this.current
+    // A failed selection is not kept, so long-running commands try again on the next call
+    this.resolving ??= this.select()
+      .then((base) => this.use(base))
+      .catch((err) => {
+        this.resolving = undefined
+        throw err
+      })
+    return this.resolving
+  }
+
+  // Run a provider call against the current mirror. When it fails for anything but a 4xx
+  // (network errors, 5xx, or a 200 with a body that is not what the provider expects) and the
+  // mirror no longer passes the probe, the call is retried once on the next healthy mirror.
+  async run<T>(fn: (base: string) => Promise<T>): Promise<T> {
+    const base = await this.baseUrl()
+    try {
+      return await fn(base)
+    } catch (err) {
+      if (err instanceof HttpError && err.status !== undefined && err.status >= 400 && err.status < 500) throw err
+      if ((await this.check(base)).base === base) throw err
+      const next = await this.select(base).catch(() => null)
+      if (!next || next === base) throw err
+      log.warn(`${this.provider}: switching from ${base} to ${next}`)
+      this.resolving = Promise.resolve(this.use(next))
+      return fn(next)
+    }
+  }
+}
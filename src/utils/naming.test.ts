@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test"
+import path from "node:path"
+import {
+  buildOutputPath,
+  checkTemplate,
+  PRESETS,
+  renderTemplate,
+  resolveTemplate,
+  sanitizeSegment,
+  templateDepth,
+} from "./naming.ts"
+
+describe("renderTemplate", () => {
+  test("fills placeholders and formats", () => {
+    const vars = { show: "Psych", season: 1, episode: 3, lang: "vostfr" }
+    expect(renderTemplate("{show} - S{season:02}E{episode:03} {lang:upper} {lang:lower}", vars)).toBe(
+      "Psych - S01E003 VOSTFR vostfr"
+    )
+  })
+
+  test("drops an optional group when a placeholder inside it is empty", () => {
+    const pattern = "{show}[ ({year})][ - {title}] - {lang}"
+    expect(renderTemplate(pattern, { show: "Psych", year: 2006, title: "Pilot", lang: "vf" })).toBe(
+      "Psych (2006) - Pilot - vf"
+    )
+    expect(renderTemplate(pattern, { show: "Psych", title: "", lang: "vf" })).toBe("Psych - vf")
+    expect(renderTemplate("[{show} {year}]", { show: "Psych" })).toBe("")
+  })
+
+  test("keeps groups without placeholders and empties missing placeholders outside groups", () => {
+    expect(renderTemplate("{show}[ HD] {year}", { show: "Psych" })).toBe("Psych HD ")
+  })
+
+  test("never lets a value create a directory or a reserved character", () => {
+    expect(renderTemplate("{show}/{title}", { show: "AC/DC", title: 'What? "Yes": <no>|*' })).toBe(
+      "AC-DC/What- -Yes-- -no---"
+    )
+  })
+})
+
+describe("sanitizeSegment", () => {
+  test("collapses whitespace, strips trailing dots and spaces and replaces control characters", () => {
+    expect(sanitizeSegment("  Mr.  Robot   S01. . ")).toBe("Mr. Robot S01")
+    expect(sanitizeSegment("a\tb")).toBe("a-b")
+  })
+
+  test("replaces empty and reserved names", () => {
+    expect(sanitizeSegment("...")).toBe("_")
+    expect(sanitizeSegment("con")).toBe("con_")
+    expect(sanitizeSegment("LPT1.txt")).toBe("LPT1.txt_")
+  })
+
+  test("truncates to a byte budget without splitting characters", () => {
+    expect(sanitizeSegment("é".repeat(10), 5)).toBe("éé")
+    expect(new TextEncoder().encode(sanitizeSegment("a".repeat(300))).length).toBe(200)
+  })
+})
+
+describe("resolveTemplate", () => {
+  test("takes presets by name, patterns and a movie override", () => {
+    expect(resolveTemplate()).toBe(PRESETS.jellyfin!)
+    expect(resolveTemplate("PLEX")).toBe(PRESETS.plex!)
+    expect(resolveTemplate("{show} {episode}", "{show} movie")).toEqual({
+      episode: "{show} {episode}",
+      movie: "{show} movie",
+    })
+  })
+
+  test("rejects unknown presets and placeholders", () => {
+    expect(checkTemplate("kodi")).toStartWith("Unknown template preset: kodi")
+    expect(checkTemplate("{show} {network}")).toStartWith("Unknown template placeholder {network}")
+    expect(checkTemplate("{name}", true)).toStartWith("Unknown template placeholder {name}")
+    expect(checkTemplate("flat")).toBeUndefined()
+  })
+})
+
+describe("buildOutputPath", () => {
+  test("uses the episode pattern for episodes and the movie pattern otherwise", () => {
+    const episode = { show: "Psych", season: 1, episode: 2, lang: "vf" }
+    expect(buildOutputPath("/media", episode)).toBe(
+      path.join("/media", "Psych", "Season 01", "Psych - S01E02 - VF.mp4")
+    )
+    expect(buildOutputPath("/media", { show: "Heat", year: 1995 }, "mkv")).toBe(
+      path.join("/media", "Heat (1995)", "Heat (1995).mkv")
+    )
+  })
+
+  test("drops empty directory levels and sanitises each one", () => {
+    const template = { episode: "{show}/{title}/{show} {episode}", movie: "{show}" }
+    expect(buildOutputPath("/media", { show: "Psych. ", season: 1, episode: 2, title: "" }, "mp4", template)).toBe(
+      path.join("/media", "Psych", "Psych. 2.mp4")
+    )
+  })
+
+  test("counts the directory levels of a pattern", () => {
+    expect(templateDepth(PRESETS.jellyfin!.episode)).toBe(2)
+    expect(templateDepth(PRESETS.flat!.movie)).toBe(0)
+  })
+})
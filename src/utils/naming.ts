@@ -0,0 +1,152 @@
+// Output naming templates and filesystem-safe path building
+//
+// Placeholders: {show} {year} {season} {episode} {title} {lang} {provider} {id}
+// Formats:      {season:02} zero-pads, {lang:upper} / {lang:lower} change case
+// Optional:     [ ({year})] is dropped when any placeholder inside it is empty
+// A "/" in the template starts a new directory; the extension is appended automatically.
+
+import path from "node:path"
+
+export interface NamingTemplate {
+  episode: string
+  movie: string
+}
+
+export const PRESETS: Record<string, NamingTemplate> = {
+  jellyfin: {
+    episode: "{show}/Season {season:02}/{show} - S{season:02}E{episode:02}[ - {lang:upper}]",
+    movie: "{show}[ ({year})]/{show}[ ({year})][ - {lang:upper}]",
+  },
+  plex: {
+    episode: "{show}[ ({year})]/Season {season:02}/{show}[ ({year})] - s{season:02}e{episode:02}[ - {title}][ - {lang:upper}]",
+    movie: "{show}[ ({year})]/{show}[ ({year})][ - {lang:upper}]",
+  },
+  flat: {
+    episode: "{show} - S{season:02}E{episode:02}[ - {lang:upper}]",
+    movie: "{show}[ ({year})][ - {lang:upper}]",
+  },
+}
+
+export const DEFAULT_PRESET = "jellyfin"
+
+const PLACEHOLDERS = ["show", "year", "season", "episode", "title", "lang", "provider", "id"] as const
+type Placeholder = (typeof PLACEHOLDERS)[number]
+
+export type NamingVars = Partial<Record<Placeholder, string | number>>
+
+// Leave room for the suffixes added next to the file (".hls-parts", ".part3", ".remux.mp4", ".nfo")
+const MAX_SEGMENT_BYTES = 200
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i
+const PLACEHOLDER_REGEX = /\{(\w+)(?::([^}]+))?\}/g
+
+function validatePattern(pattern: string): void {
+  for (const match of pattern.matchAll(PLACEHOLDER_REGEX)) {
+    const name = match[1] ?? ""
+    if (!(PLACEHOLDERS as readonly string[]).includes(name)) {
+      throw new Error(`Unknown template placeholder {${name}} (available: ${PLACEHOLDERS.join(", ")})`)
+    }
+  }
+}
+
+// --template takes a preset name or a pattern; --movieTemplate overrides the movie pattern
+export function resolveTemplate(template?: string, movieTemplate?: string): NamingTemplate {
+  let resolved: NamingTemplate = PRESETS[DEFAULT_PRESET]!
+  if (template) {
+    const preset = PRESETS[template.toLowerCase()]
+    if (preset) {
+      resolved = preset
+    } else if (template.includes("{")) {
+      resolved = { ...resolved, episode: template }
+    } else {
+      throw new Error(`Unknown template preset: ${template} (available: ${Object.keys(PRESETS).join(", ")})`)
+    }
+  }
+  if (movieTemplate) resolved = { ...resolved, movie: movieTemplate }
+  validatePattern(resolved.episode)
+  validatePattern(resolved.movie)
+  return resolved
+}
+
+// Option validator for --template / --movieTemplate
+export function checkTemplate(val: string, movie = false): string | undefined {
+  try {
+    if (movie) resolveTemplate(undefined, val)
+    else resolveTemplate(val)
+    return undefined
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err)
+  }
+}
+
+function formatValue(value: string | number | undefined, format: string | undefined): string {
+  if (value === undefined || value === "") return ""
+  const str = String(value)
+  if (!format) return str
+  const pad = format.match(/^0(\d+)$/)
+  if (pad) return str.padStart(Number(pad[1]), "0")
+  if (format === "upper") return str.toUpperCase()
+  if (format === "lower") return str.toLowerCase()
+  return str
+}
+
+// Values never create directories: path separators and reserved characters are replaced
+function cleanValue(value: string): string {
+  return value.replace(/[\\/:*?"<>|\x00-\x1f]/g, "-")
+}
+
+function renderPlaceholders(pattern: string, vars: NamingVars): { text: string; missing: boolean } {
+  let missing = false
+  const text = pattern.replace(PLACEHOLDER_REGEX, (_, name: Placeholder, format?: string) => {
+    const value = formatValue(vars[name], format)
+    if (value === "") missing = true
+    return cleanValue(value)
+  })
+  return { text, missing }
+}
+
+export function renderTemplate(pattern: string, vars: NamingVars): string {
+  const withOptionals = pattern.replace(/\[([^[\]]*)\]/g, (_, inner: string) => {
+    const { text, missing } = renderPlaceholders(inner, vars)
+    return missing ? "" : text
+  })
+  return renderPlaceholders(withOptionals, vars).text
+}
+
+function truncateBytes(s: string, maxBytes: number): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(s).length <= maxBytes) return s
+  let out = ""
+  for (const ch of s) {
+    if (encoder.encode(out + ch).length > maxBytes) break
+    out += ch
+  }
+  return out.trimEnd()
+}
+
+// Safe on Windows, macOS and Linux filesystems: no reserved characters or device names,
+// no trailing dots or spaces, and at most MAX_SEGMENT_BYTES of UTF-8
+export function sanitizeSegment(segment: string, maxBytes = MAX_SEGMENT_BYTES): string {
+  let s = cleanValue(segment).replace(/\s+/g, " ").trim()
+  s = truncateBytes(s, maxBytes).replace(/[. ]+$/, "")
+  if (s.length === 0) s = "_"
+  if (RESERVED_NAMES.test(s)) s = `${s}_`
+  return s
+}
+
+// Number of directory levels a pattern creates below the output directory
+export function templateDepth(pattern: string): number {
+  return pattern.split("/").filter((s) => s.length > 0).length - 1
+}
+
+export function buildOutputPath(baseDir: string, vars: NamingVars, ext = "mp4", template: NamingTemplate = PRESETS[DEFAULT_PRESET]!): string {
+  const isEpisode = !!vars.season && !!vars.episode
+  const pattern = isEpisode ? template.episode : template.movie
+  const segments = renderTemplate(pattern, vars)
+    .split("/")
+    .filter((s) => s.trim().length > 0)
+
+  const dirs = segments.slice(0, -1).map((s) => sanitizeSegment(s))
+  const suffix = `.${ext}`
+  const file = sanitizeSegment(segments[segments.length - 1] ?? String(vars.show ?? "video"), MAX_SEGMENT_BYTES - suffix.length)
+  return path.join(baseDir, ...dirs, `${file}${suffix}`)
+}
@@ -0,0 +1,140 @@
+// Jellyfin/Kodi metadata: tvshow.nfo, season.nfo, per-episode .nfo, movie .nfo and artwork
+
+import path from "node:path"
+import type { Episode, TitleDetails } from "../types.ts"
+import type { JobRecord } from "./manifest.ts"
+import { fetchBytes } from "./http.ts"
+import { log } from "./log.ts"
+import { DEFAULT_PRESET, PRESETS, templateDepth, type NamingTemplate } from "./naming.ts"
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+function tag(name: string, value: string | number | undefined, attrs = ""): string | null {
+  if (value === undefined || value === "") return null
+  return `  <${name}${attrs}>${escapeXml(String(value))}</${name}>`
+}
+
+function nfoDocument(root: string, lines: Array<string | null>): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<${root}>`,
+    ...lines.filter((l): l is string => l !== null),
+    `</${root}>`,
+    "",
+  ].join("\n")
+}
+
+function titleLines(details: TitleDetails, providerName: string): Array<string | null> {
+  return [
+    tag("title", details.name),
+    tag("year", details.year),
+    tag("plot", details.synopsis),
+    ...(details.genres ?? []).map((g) => tag("genre", g)),
+    tag("thumb", details.posterUrl, ' aspect="poster"'),
+    tag("uniqueid", String(details.id), ` type="${providerName}"`),
+  ]
+}
+
+export function tvShowNfo(details: TitleDetails, providerName: string): string {
+  return nfoDocument("tvshow", titleLines(details, providerName))
+}
+
+export function movieNfo(details: TitleDetails, providerName: string): string {
+  return nfoDocument("movie", titleLines(details, providerName))
+}
+
+export function seasonNfo(season: number): string {
+  return nfoDocument("season", [tag("title", `Season ${season}`), tag("seasonnumber", season)])
+}
+
+export function episodeNfo(details: TitleDetails, ep: Pick<Episode, "season" | "episode" | "title" | "synopsis">): string {
+  return nfoDocument("episodedetails", [
+    tag("title", ep.title ?? `Episode ${ep.episode}`),
+    tag("showtitle", details.name),
+    tag("season", ep.season),
+    tag("episode", ep.episode),
+    tag("plot", ep.synopsis),
+  ])
+}
+
+// Existing files are left alone so hand-edited metadata survives re-runs
+async function writeIfMissing(filePath: string, content: string | Uint8Array): Promise<void> {
+  if (await Bun.file(filePath).exists()) return
+  await Bun.write(filePath, content)
+}
+
+function imageExt(url: string): string {
+  const ext = path.extname(new URL(url).pathname).toLowerCase()
+  return [".jpg", ".jpeg", ".png", ".webp"].includes(ext) ? ext : ".jpg"
+}
+
+async function saveArtwork(dir: string, name: string, url: string | undefined): Promise<void> {
+  if (!url) return
+  try {
+    const filePath = path.join(dir, `${name}${imageExt(url)}`)
+    if (await Bun.file(filePath).exists()) return
+    await Bun.write(filePath, await fetchBytes(url))
+  } catch (err) {
+    log.warn(`Could not save ${name} artwork from ${url}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+function stripExt(filePath: string): string {
+  return filePath.slice(0, filePath.length - path.extname(filePath).length)
+}
+
+// Write metadata for downloaded files; directories are derived from the output paths.
+// Show and season files are only written when the template gives them their own directory.
+export async function writeMetadata(
+  details: TitleDetails,
+  providerName: string,
+  records: JobRecord[],
+  template: NamingTemplate = PRESETS[DEFAULT_PRESET]!
+): Promise<void> {
+  if (records.length === 0) return
+  const byEpisode = new Map(details.episodes.map((ep) => [`S${ep.season}E${ep.episode}`, ep]))
+
+  if (details.type === "movie") {
+    for (const record of records) await writeIfMissing(`${stripExt(record.outputPath)}.nfo`, movieNfo(details, providerName))
+    if (templateDepth(template.movie) === 0) return
+    const movieDir = path.dirname(records[0]!.outputPath)
+    await saveArtwork(movieDir, "poster", details.posterUrl)
+    await saveArtwork(movieDir, "fanart", details.fanartUrl)
+    return
+  }
+
+  const depth = templateDepth(template.episode)
+
+  const showDirs = new Set<string>()
+  const seasonDirs = new Map<string, number>()
+  for (const record of records) {
+    if (!record.season || !record.episode) continue
+    const fileDir = path.dirname(record.outputPath)
+    if (depth >= 2) {
+      seasonDirs.set(fileDir, record.season)
+      showDirs.add(path.dirname(fileDir))
+    } else if (depth === 1) {
+      showDirs.add(fileDir)
+    }
+
+    const ep = byEpisode.get(`S${record.season}E${record.episode}`)
+    const info = { season: record.season, episode: record.episode, title: ep?.title, synopsis: ep?.synopsis }
+    await writeIfMissing(`${stripExt(record.outputPath)}.nfo`, episodeNfo(details, info))
+  }
+
+  for (const [seasonDir, season] of seasonDirs) {
+    await writeIfMissing(path.join(seasonDir, "season.nfo"), seasonNfo(season))
+  }
+  for (const showDir of showDirs) {
+    await writeIfMissing(path.join(showDir, "tvshow.nfo"), tvShowNfo(details, providerName))
+    await saveArtwork(showDir, "poster", details.posterUrl)
+    await saveArtwork(showDir, "fanart", details.fanartUrl)
+  }
+}
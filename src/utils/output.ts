@@ -0,0 +1,23 @@
+// Machine-readable output (--json): one JSON document per command, or one JSON event per
+// line (NDJSON) for the commands that download. Human-readable logs move to stderr so
+// stdout only ever carries JSON.
+
+let jsonOutput = false
+
+export function setJsonOutput(enabled: boolean): void {
+  jsonOutput = enabled
+}
+
+export function isJsonOutput(): boolean {
+  return jsonOutput
+}
+
+// The single result document of search, info, list, jobs list, ...
+export function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2))
+}
+
+// One NDJSON line: { "event": "...", ..., "time": ISO timestamp }
+export function printEvent<E extends { event: string }>(event: E): void {
+  console.log(JSON.stringify({ ...event, time: new Date().toISOString() }))
+}
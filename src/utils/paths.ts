@@ -0,0 +1,16 @@
+// Per-user config and cache locations (XDG base directories)
+
+import os from "node:os"
+import path from "node:path"
+
+const APP_DIR = "yopflix-downloader"
+
+export function configDir(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config")
+  return path.join(base, APP_DIR)
+}
+
+export function cacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache")
+  return path.join(base, APP_DIR)
+}
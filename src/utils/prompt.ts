@@ -0,0 +1,155 @@
+// Minimal arrow-key pickers for the terminal (no dependencies)
+
+import readline from "node:readline"
+import { isJsonOutput } from "./output.ts"
+
+export interface Choice<T> {
+  label: string
+  value: T
+  hint?: string // Dimmed text after the label
+}
+
+const PAGE_SIZE = 15
+
+// Interactive prompts need a terminal on both ends; piped, scheduled and --json runs never prompt
+export function isInteractive(): boolean {
+  return process.stdin.isTTY === true && process.stdout.isTTY === true && !isJsonOutput()
+}
+
+export class PromptCancelled extends Error {
+  constructor() {
+    super("Selection cancelled")
+  }
+}
+
+interface Key {
+  name?: string
+  ctrl?: boolean
+  sequence?: string
+}
+
+// Shared raw-mode loop: `render` returns the lines to show, `onKey` returns a result to finish
+function runPrompt<R>(render: () => string[], onKey: (key: Key) => R | undefined): Promise<R> {
+  const stdin = process.stdin
+  const stdout = process.stdout
+  readline.emitKeypressEvents(stdin)
+  stdin.setRawMode(true)
+  stdin.resume()
+
+  let drawn = 0
+  const draw = () => {
+    if (drawn > 0) stdout.write(`\x1b[${drawn}A`)
+    stdout.write("\x1b[0J")
+    const lines = render()
+    stdout.write(lines.join("\n") + "\n")
+    drawn = lines.length
+  }
+
+  return new Promise<R>((resolve, reject) => {
+    const finish = (fn: () => void) => {
+      stdin.off("keypress", handler)
+      stdin.setRawMode(false)
+      stdin.pause()
+      stdout.write("\x1b[?25h")
+      fn()
+    }
+    const handler = (_: string, key: Key = {}) => {
+      if ((key.ctrl && key.name === "c") || key.name === "escape" || key.name === "q") {
+        finish(() => reject(new PromptCancelled()))
+        return
+      }
+      const result = onKey(key)
+      if (result !== undefined) {
+        finish(() => resolve(result))
+        return
+      }
+      draw()
+    }
+    stdout.write("\x1b[?25l")
+    stdin.on("keypress", handler)
+    draw()
+  })
+}
+
+function visibleWindow(cursor: number, total: number): [number, number] {
+  const start = Math.min(Math.max(0, cursor - Math.floor(PAGE_SIZE / 2)), Math.max(0, total - PAGE_SIZE))
+  return [start, Math.min(total, start + PAGE_SIZE)]
+}
+
+function moveCursor(cursor: number, total: number, key: Key): number {
+  if (key.name === "up" || key.name === "k") return (cursor - 1 + total) % total
+  if (key.name === "down" || key.name === "j") return (cursor + 1) % total
+  if (key.name === "pageup") return Math.max(0, cursor - PAGE_SIZE)
+  if (key.name === "pagedown") return Math.min(total - 1, cursor + PAGE_SIZE)
+  if (key.name === "home") return 0
+  if (key.name === "end") return total - 1
+  return cursor
+}
+
+function choiceLine<T>(choice: Choice<T>): string {
+  return choice.hint ? `${choice.label} \x1b[2m${choice.hint}\x1b[0m` : choice.label
+}
+
+// Arrow keys to move, Enter to pick
+export async function selectOne<T>(message: string, choices: Choice<T>[], initial = 0): Promise<T> {
+  if (choices.length === 0) throw new Error(`${message}: nothing to choose from`)
+  let cursor = Math.min(Math.max(0, initial), choices.length - 1)
+
+  const index = await runPrompt(
+    () => {
+      const [start, end] = visibleWindow(cursor, choices.length)
+      const lines = [`${message} \x1b[2m(↑/↓ to move, Enter to select, q to cancel)\x1b[0m`]
+      for (let i = start; i < end; i += 1) {
+        const line = choiceLine(choices[i]!)
+        lines.push(i === cursor ? `\x1b[36m❯ ${line}\x1b[0m` : `  ${line}`)
+      }
+      if (end - start < choices.length) lines.push(`\x1b[2m  ${cursor + 1}/${choices.length}\x1b[0m`)
+      return lines
+    },
+    (key) => {
+      if (key.name === "return" || key.name === "enter") return cursor
+      cursor = moveCursor(cursor, choices.length, key)
+      return undefined
+    }
+  )
+  return choices[index]!.value
+}
+
+// Arrow keys to move, Space to toggle, `a` to toggle all, Enter to confirm (at least one item)
+export async function selectMany<T>(message: string, choices: Choice<T>[], initiallySelected = true): Promise<T[]> {
+  if (choices.length === 0) return []
+  const selected = new Set<number>(initiallySelected ? choices.map((_, i) => i) : [])
+  let cursor = 0
+  let warning = ""
+
+  const indexes = await runPrompt(
+    () => {
+      const [start, end] = visibleWindow(cursor, choices.length)
+      const lines = [`${message} \x1b[2m(Space to toggle, a for all, Enter to confirm)\x1b[0m`]
+      for (let i = start; i < end; i += 1) {
+        const box = selected.has(i) ? "\x1b[32m◉\x1b[0m" : "◯"
+        const line = `${box} ${choiceLine(choices[i]!)}`
+        lines.push(i === cursor ? `\x1b[36m❯\x1b[0m ${line}` : `  ${line}`)
+      }
+      lines.push(`\x1b[2m  ${selected.size}/${choices.length} selected\x1b[0m${warning ? `  \x1b[33m${warning}\x1b[0m` : ""}`)
+      return lines
+    },
+    (key) => {
+      warning = ""
+      if (key.name === "return" || key.name === "enter") {
+        if (selected.size > 0) return [...selected].sort((a, b) => a - b)
+        warning = "select at least one item"
+      } else if (key.name === "space") {
+        if (selected.has(cursor)) selected.delete(cursor)
+        else selected.add(cursor)
+      } else if (key.name === "a") {
+        if (selected.size === choices.length) selected.clear()
+        else choices.forEach((_, i) => selected.add(i))
+      } else {
+        cursor = moveCursor(cursor, choices.length, key)
+      }
+      return undefined
+    }
+  )
+  return indexes.map((i) => choices[i]!.value)
+}
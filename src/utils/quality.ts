@@ -0,0 +1,67 @@
+// Quality selection among HLS variants: best | worst | 720p | <=480p | >=720p
+
+import type { HlsVariant } from "./hls.ts"
+
+export type QualitySpec =
+  | { kind: "best" }
+  | { kind: "worst" }
+  | { kind: "exact"; height: number }
+  | { kind: "max"; height: number }
+  | { kind: "min"; height: number }
+
+export function parseQuality(val: string): QualitySpec | null {
+  const value = val.trim().toLowerCase()
+  if (value === "best") return { kind: "best" }
+  if (value === "worst") return { kind: "worst" }
+  const match = value.match(/^(<=|>=)?\s*(\d{3,4})p?$/)
+  if (!match) return null
+  const height = Number(match[2])
+  if (match[1] === "<=") return { kind: "max", height }
+  if (match[1] === ">=") return { kind: "min", height }
+  return { kind: "exact", height }
+}
+
+// Option validator for --quality
+export function checkQuality(val: string): string | undefined {
+  return parseQuality(val) ? undefined : "expected best, worst, 720p, <=480p or >=720p"
+}
+
+function variantHeight(v: HlsVariant): number {
+  return v.resolution?.height ?? 0
+}
+
+// Highest quality first (by height, then bandwidth)
+function sortBest(variants: HlsVariant[]): HlsVariant[] {
+  return [...variants].sort((a, b) => variantHeight(b) - variantHeight(a) || b.bandwidth - a.bandwidth)
+}
+
+// Pick a variant for the spec. When nothing satisfies a bound, the closest variant is used
+// rather than failing the download.
+export function selectVariant(variants: HlsVariant[], spec: QualitySpec): HlsVariant | undefined {
+  const sorted = sortBest(variants)
+  const best = sorted[0]
+  const worst = sorted[sorted.length - 1]
+  switch (spec.kind) {
+    case "best":
+      return best
+    case "worst":
+      return worst
+    case "max":
+      return sorted.find((v) => variantHeight(v) <= spec.height) ?? worst
+    case "min":
+      return [...sorted].reverse().find((v) => variantHeight(v) >= spec.height) ?? best
+    case "exact":
+      return (
+        sorted.find((v) => variantHeight(v) === spec.height) ??
+        sorted.find((v) => variantHeight(v) <= spec.height) ??
+        worst
+      )
+  }
+}
+
+export function formatVariant(v: HlsVariant): string {
+  const res = v.resolution ? `${v.resolution.width}x${v.resolution.height}` : "unknown resolution"
+  const kbps = v.bandwidth > 0 ? ` ${Math.round(v.bandwidth / 1000)} kbps` : ""
+  const codecs = v.codecs ? ` (${v.codecs})` : ""
+  return `${res}${kbps}${codecs}`
+}
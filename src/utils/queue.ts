@@ -0,0 +1,116 @@
+// Concurrency primitives for the download queue
+
+export class Semaphore {
+  private active = 0
+  private waiting: Array<() => void> = []
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // Woken with the slot of the task that finished, so `active` already counts this one
+      await new Promise<void>((resolve) => this.waiting.push(resolve))
+    } else {
+      this.active += 1
+    }
+    try {
+      return await fn()
+    } finally {
+      // Hand the slot straight to the next waiter; freeing it first would let a new caller take it too
+      const next = this.waiting.shift()
+      if (next) next()
+      else this.active -= 1
+    }
+  }
+}
+
+// Caps how many downloads may hit the same host at once (uqload throttles hard)
+export class HostLimiter {
+  private semaphores = new Map<string, Semaphore>()
+
+  constructor(
+    private readonly limits: Record<string, number>,
+    private readonly defaultLimit = Infinity
+  ) {}
+
+  run<T>(host: string, fn: () => Promise<T>): Promise<T> {
+    const limit = this.limits[host] ?? this.defaultLimit
+    if (!Number.isFinite(limit)) return fn()
+
+    let semaphore = this.semaphores.get(host)
+    if (!semaphore) {
+      semaphore = new Semaphore(Math.max(1, limit))
+      this.semaphores.set(host, semaphore)
+    }
+    return semaphore.run(fn)
+  }
+}
+
+// Spaces out requests to the same domain: at most `rate` requests per second per domain.
+// Keys match the hostname and its subdomains; "*" applies to every other domain.
+export class RateLimiter {
+  private nextSlot = new Map<string, number>()
+
+  constructor(private limits: Record<string, number>) {}
+
+  setLimits(limits: Record<string, number>): void {
+    this.limits = limits
+  }
+
+  private rateFor(hostname: string): { key: string; rate: number } | undefined {
+    const key = Object.keys(this.limits)
+      .filter((k) => k !== "*" && (hostname === k || hostname.endsWith(`.${k}`)))
+      .sort((a, b) => b.length - a.length)[0]
+    if (key) return { key, rate: this.limits[key]! }
+    const fallback = this.limits["*"]
+    return fallback ? { key: hostname, rate: fallback } : undefined
+  }
+
+  async wait(hostname: string): Promise<void> {
+    const limit = this.rateFor(hostname)
+    if (!limit || !(limit.rate > 0)) return
+    const now = Date.now()
+    const slot = Math.max(now, this.nextSlot.get(limit.key) ?? 0)
+    this.nextSlot.set(limit.key, slot + 1000 / limit.rate)
+    if (slot > now) await new Promise((r) => setTimeout(r, slot - now))
+  }
+}
+
+export const DEFAULT_HOST_LIMITS: Record<string, number> = {
+  uqload: 1,
+}
+
+// Option validator for host=N lists (--hostLimit, --rateLimit)
+export function checkHostLimits(val: string): string | undefined {
+  const ok = val.split(",").every((pair) => /^[^=\s]+=\d+(\.\d+)?$/.test(pair.trim()) && !/=0+(\.0+)?$/.test(pair.trim()))
+  return ok ? undefined : `expected host=N pairs with N > 0, like uqload=1,vidzy=4 (got "${val}")`
+}
+
+// Parse "uqload=1,vidzy=4" into a limits map
+export function parseHostLimits(val: string | boolean | undefined): Record<string, number> | undefined {
+  if (typeof val !== "string") return undefined
+  const limits: Record<string, number> = {}
+  for (const pair of val.split(",")) {
+    const [host, count] = pair.split("=").map((s) => s.trim())
+    const n = Number(count)
+    if (host && Number.isFinite(n) && n > 0) limits[host] = n
+  }
+  return limits
+}
+
+// Run worker over items with at most `concurrency` in flight; items start in order
+export async function runQueue<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next
+      next += 1
+      await worker(items[index]!, index)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runWorker))
+}
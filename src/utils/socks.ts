@@ -0,0 +1,190 @@
+// SOCKS5 support for fetch. Bun's fetch only speaks HTTP proxies, so SOCKS proxies are
+// reached through a local HTTP proxy that forwards every connection over SOCKS5.
+
+import net from "node:net"
+
+const HEADER_END = Buffer.from("\r\n\r\n")
+const MAX_HEADER_BYTES = 64 * 1024
+
+// Buffered reads from a socket until it is handed over to pipe()
+class SocketReader {
+  private buffer = Buffer.alloc(0)
+  private wake: (() => void) | null = null
+  private failure: Error | null = null
+
+  private onData = (chunk: Buffer) => {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    this.wake?.()
+  }
+  private onClose = (err?: Error) => {
+    this.failure = err instanceof Error ? err : new Error("Connection closed")
+    this.wake?.()
+  }
+
+  constructor(private readonly socket: net.Socket) {
+    socket.on("data", this.onData)
+    socket.on("end", this.onClose)
+    socket.on("error", this.onClose)
+  }
+
+  private async fill(): Promise<void> {
+    if (this.failure) throw this.failure
+    await new Promise<void>((resolve) => (this.wake = resolve))
+    this.wake = null
+  }
+
+  async read(n: number): Promise<Buffer> {
+    while (this.buffer.length < n) await this.fill()
+    const out = this.buffer.subarray(0, n)
+    this.buffer = this.buffer.subarray(n)
+    return out
+  }
+
+  async readHead(): Promise<Buffer> {
+    let end = this.buffer.indexOf(HEADER_END)
+    while (end < 0) {
+      if (this.buffer.length > MAX_HEADER_BYTES) throw new Error("Request headers too large")
+      await this.fill()
+      end = this.buffer.indexOf(HEADER_END)
+    }
+    return this.read(end + HEADER_END.length)
+  }
+
+  // Stop reading and return whatever arrived past the last read
+  detach(): Buffer {
+    this.socket.off("data", this.onData)
+    this.socket.off("end", this.onClose)
+    this.socket.off("error", this.onClose)
+    this.socket.pause()
+    return this.buffer
+  }
+}
+
+function connectTcp(host: string, port: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(port, host)
+    socket.once("connect", () => {
+      socket.off("error", reject)
+      resolve(socket)
+    })
+    socket.once("error", reject)
+  })
+}
+
+const SOCKS_ERRORS: Record<number, string> = {
+  1: "general failure",
+  2: "connection not allowed by ruleset",
+  3: "network unreachable",
+  4: "host unreachable",
+  5: "connection refused",
+  6: "TTL expired",
+  7: "command not supported",
+  8: "address type not supported",
+}
+
+// SOCKS5 CONNECT (RFC 1928) with optional username/password auth (RFC 1929). The target
+// host name is sent as-is so DNS resolution happens on the proxy side.
+async function socksConnect(proxy: URL, host: string, port: number): Promise<{ socket: net.Socket; leftover: Buffer }> {
+  const socket = await connectTcp(proxy.hostname, Number(proxy.port || 1080))
+  const reader = new SocketReader(socket)
+  try {
+    const user = decodeURIComponent(proxy.username)
+    const pass = decodeURIComponent(proxy.password)
+    socket.write(Buffer.from(user ? [5, 2, 0, 2] : [5, 1, 0]))
+    const [version, method] = await reader.read(2)
+    if (version !== 5 || (method !== 0 && method !== 2)) throw new Error("SOCKS proxy refused the authentication methods")
+    if (method === 2) {
+      const u = Buffer.from(user)
+      const p = Buffer.from(pass)
+      socket.write(Buffer.concat([Buffer.from([1, u.length]), u, Buffer.from([p.length]), p]))
+      const [, status] = await reader.read(2)
+      if (status !== 0) throw new Error("SOCKS proxy rejected the credentials")
+    }
+
+    const name = Buffer.from(host)
+    const portBytes = Buffer.from([port >> 8, port & 0xff])
+    socket.write(Buffer.concat([Buffer.from([5, 1, 0, 3, name.length]), name, portBytes]))
+    const [, reply, , addressType] = await reader.read(4)
+    if (reply !== 0) throw new Error(`SOCKS connect to ${host}:${port} failed: ${SOCKS_ERRORS[reply ?? 1] ?? `code ${reply}`}`)
+    const addressLength = addressType === 1 ? 4 : addressType === 4 ? 16 : (await reader.read(1))[0]!
+    await reader.read(addressLength + 2)
+    return { socket, leftover: reader.detach() }
+  } catch (err) {
+    socket.destroy()
+    throw err
+  }
+}
+
+function tunnel(client: net.Socket, upstream: net.Socket): void {
+  const close = () => {
+    client.destroy()
+    upstream.destroy()
+  }
+  client.on("error", close)
+  upstream.on("error", close)
+  client.pipe(upstream)
+  upstream.pipe(client)
+}
+
+// Plain-HTTP proxy requests use an absolute URL; the origin server wants a path.
+// Connection: close keeps one target per client connection.
+function rewriteRequestHead(head: string): { host: string; port: number; head: string } {
+  const [requestLine = "", ...headers] = head.trimEnd().split("\r\n")
+  const [method, target, version] = requestLine.split(" ")
+  const url = new URL(target ?? "")
+  const kept = headers.filter((h) => !/^(proxy-connection|connection|proxy-authorization|keep-alive):/i.test(h))
+  const lines = [`${method} ${url.pathname}${url.search} ${version}`, ...kept, "Connection: close"]
+  return { host: url.hostname, port: Number(url.port || 80), head: `${lines.join("\r\n")}\r\n\r\n` }
+}
+
+async function handleClient(client: net.Socket, proxy: URL): Promise<void> {
+  const reader = new SocketReader(client)
+  try {
+    const head = (await reader.readHead()).toString("latin1")
+    if (head.startsWith("CONNECT ")) {
+      const target = head.split(" ")[1] ?? ""
+      const sep = target.lastIndexOf(":")
+      const host = target.slice(0, sep).replace(/^\[|\]$/g, "")
+      const { socket, leftover } = await socksConnect(proxy, host, Number(target.slice(sep + 1)))
+      client.write("HTTP/1.1 200 Connection Established\r\n\r\n")
+      if (leftover.length > 0) client.write(leftover)
+      const pending = reader.detach()
+      if (pending.length > 0) socket.write(pending)
+      tunnel(client, socket)
+    } else {
+      const rewritten = rewriteRequestHead(head)
+      const { socket, leftover } = await socksConnect(proxy, rewritten.host, rewritten.port)
+      socket.write(rewritten.head)
+      const pending = reader.detach()
+      if (pending.length > 0) socket.write(pending)
+      if (leftover.length > 0) client.write(leftover)
+      tunnel(client, socket)
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    client.end(`HTTP/1.1 502 Bad Gateway\r\nContent-Type: text/plain\r\nConnection: close\r\n\r\n${message}`)
+  }
+}
+
+export function isSocksProxy(url: string): boolean {
+  return /^socks5h?:\/\//i.test(url)
+}
+
+// Start the bridge on a random local port and return its proxy URL. The server does not
+// keep the process alive.
+export function startSocksBridge(proxyUrl: string): Promise<string> {
+  const proxy = new URL(proxyUrl)
+  return new Promise((resolve, reject) => {
+    const server = net.createServer((client) => void handleClient(client, proxy))
+    server.once("error", reject)
+    server.listen(0, "127.0.0.1", () => {
+      server.unref()
+      const address = server.address()
+      if (!address || typeof address === "string") {
+        reject(new Error("SOCKS bridge did not get a TCP port"))
+        return
+      }
+      resolve(`http://127.0.0.1:${address.port}`)
+    })
+  })
+}
@@ -0,0 +1,39 @@
+// Host detection and ordering for episode sources
+
+import type { EpisodeSource } from "../types.ts"
+
+// Preferred host order (first available is tried first)
+export const HOST_ORDER = ["uqload", "vidzy", "voe", "netu", "premium"] as const
+
+export function detectHost(url: string): string {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname
+  } catch {
+    return "unknown"
+  }
+  const known = HOST_ORDER.find((key) => hostname.includes(key))
+  return known ?? hostname.replace(/^www\./, "")
+}
+
+function hostRank(host: string): number {
+  const idx = (HOST_ORDER as readonly string[]).indexOf(host)
+  return idx >= 0 ? idx : HOST_ORDER.length
+}
+
+// Stable sort: hosts in HOST_ORDER first, unknown hosts keep their original order
+export function sortSourcesByHost(sources: EpisodeSource[]): EpisodeSource[] {
+  return sources
+    .map((source, i) => ({ source, i }))
+    .sort((a, b) => hostRank(a.source.host) - hostRank(b.source.host) || a.i - b.i)
+    .map(({ source }) => source)
+}
+
+export function dedupeSources(sources: EpisodeSource[]): EpisodeSource[] {
+  const seen = new Set<string>()
+  return sources.filter((s) => {
+    if (seen.has(s.url)) return false
+    seen.add(s.url)
+    return true
+  })
+}
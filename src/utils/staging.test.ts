@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import os from "node:os"
+import path from "node:path"
+import { mkdir, mkdtemp, readdir, rm, utimes } from "node:fs/promises"
+import { cleanStaging, promoteStaged, STAGING_DIR, stagingPath } from "./staging.ts"
+
+let root: string
+let staging: string
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(os.tmpdir(), "yopflix-staging-"))
+  staging = path.join(root, STAGING_DIR)
+  await mkdir(staging)
+})
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true })
+})
+
+async function stage(name: string, ageHours = 0): Promise<void> {
+  const file = path.join(staging, name)
+  if (name.endsWith("/")) await mkdir(file)
+  else await Bun.write(file, "x")
+  const time = new Date(Date.now() - ageHours * 60 * 60 * 1000)
+  await utimes(file, time, time)
+}
+
+const listStaging = async () => (await readdir(staging).catch(() => [])).sort()
+
+describe("stagingPath", () => {
+  test("puts the file in the staging folder next to its destination", () => {
+    expect(stagingPath("/media/Psych/S01E01.mp4")).toBe(path.join("/media/Psych", STAGING_DIR, "S01E01.mp4"))
+  })
+})
+
+describe("cleanStaging", () => {
+  test("keeps only unfinished downloads' files and other leftovers under a day old", async () => {
+    const finished = path.join(root, "E01.mp4")
+    const unfinished = path.join(root, "E02.mp4")
+    await stage("E01.mp4")
+    await stage("E01.mp4.parts.json")
+    await stage("E02.mp4", 48)
+    await stage("E02.hls-parts/", 48)
+    await stage("E02.mp4.aria2", 48)
+    await stage("E03.mp4", 2)
+    await stage("E04.mp4", 25)
+    await stage("E04.hls-parts/", 25)
+
+    await cleanStaging([finished, unfinished], new Set([unfinished]))
+    expect(await listStaging()).toEqual(["E02.hls-parts", "E02.mp4", "E02.mp4.aria2", "E03.mp4"])
+  })
+
+  test("does not take files of a video whose name only starts the same way", async () => {
+    await stage("E1.mp4")
+    await stage("E10.mp4")
+    await cleanStaging([path.join(root, "E1.mp4")], new Set())
+    expect(await listStaging()).toEqual(["E10.mp4"])
+  })
+
+  test("removes the staging folder once it is empty", async () => {
+    await stage("E01.mp4")
+    await cleanStaging([path.join(root, "E01.mp4")], new Set())
+    expect(await readdir(root)).toEqual([])
+  })
+
+  test("ignores destinations without a staging folder", async () => {
+    await cleanStaging([path.join(root, "Other", "E01.mp4")], new Set())
+    expect(await readdir(root)).toEqual([STAGING_DIR])
+  })
+})
+
+describe("promoteStaged", () => {
+  test("moves the video and its subtitles into place, keeping other staged files", async () => {
+    await stage("E01.mp4")
+    await stage("E01.fr.srt")
+    await stage("E01.mp4.parts.json")
+    await stage("E02.fr.srt")
+    const finalPath = path.join(root, "Season 01", "E01.mp4")
+
+    await promoteStaged(path.join(staging, "E01.mp4"), finalPath)
+    expect((await readdir(path.dirname(finalPath))).sort()).toEqual(["E01.fr.srt", "E01.mp4"])
+    expect(await listStaging()).toEqual(["E01.mp4.parts.json", "E02.fr.srt"])
+  })
+
+  test("removes the staging folder when nothing else is staged", async () => {
+    await stage("E01.mp4")
+    await promoteStaged(path.join(staging, "E01.mp4"), path.join(root, "E01.mp4"))
+    expect(await readdir(root)).toEqual(["E01.mp4"])
+  })
+})
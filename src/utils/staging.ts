@@ -0,0 +1,84 @@
+// Staging area for downloads: every backend, remux and subtitle mux writes into a hidden
+// .yopflix-staging folder next to the destination, and the finished files are renamed into
+// place in one step. A crash never leaves a half-written video where media servers look.
+
+import path from "node:path"
+import { mkdir, readdir, rename, rm, rmdir, stat, statfs } from "node:fs/promises"
+import { log } from "./log.ts"
+
+// Hidden, and in the destination folder so the final rename stays on one filesystem
+export const STAGING_DIR = ".yopflix-staging"
+
+// Free space a download needs before it starts; episodes are rarely above 2 GiB
+export const MIN_FREE_BYTES = 2 * 1024 * 1024 * 1024
+
+// Leftovers of downloads that are not running are kept this long so an interrupted one can resume
+const STALE_STAGING_MS = 24 * 60 * 60 * 1000
+
+export function stagingPath(finalPath: string): string {
+  return path.join(path.dirname(finalPath), STAGING_DIR, path.basename(finalPath))
+}
+
+// Name without the extension: staged files of one video (parts, temp remuxes, subtitles) start with it
+function stemOf(filePath: string): string {
+  const base = path.basename(filePath)
+  return base.slice(0, base.length - path.extname(base).length)
+}
+
+function belongsTo(entry: string, finalPath: string): boolean {
+  return entry === path.basename(finalPath) || entry.startsWith(`${stemOf(finalPath)}.`)
+}
+
+function formatGiB(bytes: number): string {
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GiB`
+}
+
+// Throws when the filesystem holding `dir` (or its closest existing parent) has less than `bytes` free
+export async function ensureFreeSpace(dir: string, bytes = MIN_FREE_BYTES): Promise<void> {
+  let existing = dir
+  while (!(await stat(existing).catch(() => null)) && path.dirname(existing) !== existing) {
+    existing = path.dirname(existing)
+  }
+  const { bavail, bsize } = await statfs(existing)
+  const free = Number(bavail) * Number(bsize)
+  if (free < bytes) {
+    throw new Error(`Not enough free space in ${existing}: ${formatGiB(free)} free, ${formatGiB(bytes)} needed`)
+  }
+}
+
+// Move the staged video and its subtitle sidecars to their final place; the video goes last so
+// it only shows up once everything else is there
+export async function promoteStaged(stagedPath: string, finalPath: string): Promise<void> {
+  const stagingDir = path.dirname(stagedPath)
+  const finalDir = path.dirname(finalPath)
+  await mkdir(finalDir, { recursive: true })
+  const stem = stemOf(stagedPath)
+  const sidecars = (await readdir(stagingDir)).filter((entry) => entry.startsWith(`${stem}.`) && entry.endsWith(".srt"))
+  for (const entry of sidecars) await rename(path.join(stagingDir, entry), path.join(finalDir, entry))
+  await rename(stagedPath, finalPath)
+  await rmdir(stagingDir).catch(() => {}) // Only when empty
+}
+
+// Remove the staging leftovers next to `finalPaths`: files of finished downloads, and files of
+// other downloads once they are a day old. Staged files of unfinished downloads in `resumable`
+// are kept so those downloads pick up where they stopped.
+export async function cleanStaging(finalPaths: string[], resumable: Set<string>): Promise<void> {
+  const dirs = new Set(finalPaths.map((p) => path.join(path.dirname(p), STAGING_DIR)))
+  for (const dir of dirs) {
+    const entries = await readdir(dir).catch(() => [])
+    let removed = 0
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry)
+      const owner = finalPaths.find((p) => path.join(path.dirname(p), STAGING_DIR) === dir && belongsTo(entry, p))
+      if (owner && resumable.has(owner)) continue
+      if (!owner) {
+        const info = await stat(entryPath).catch(() => null)
+        if (!info || Date.now() - info.mtimeMs < STALE_STAGING_MS) continue
+      }
+      await rm(entryPath, { recursive: true, force: true })
+      removed += 1
+    }
+    if (removed > 0) log.info(`Removed ${removed} leftover staged file(s) from ${dir}`)
+    await rmdir(dir).catch(() => {})
+  }
+}
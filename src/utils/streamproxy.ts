@@ -0,0 +1,208 @@
+// Local HTTP proxy that lets mpv, VLC or any player open resolved streams: it sends the
+// Referer/Origin headers the hosts expect and rewrites HLS playlists so segments, keys and
+// variants go through it too. Embeds are resolved when the player first asks for a video.
+
+import type { Server } from "bun"
+import type { Episode } from "../types.ts"
+import { findResolver, forgetResolution } from "../resolvers/index.ts"
+import { resolveStream } from "./download.ts"
+import { fetchResponse } from "./http.ts"
+import { isHlsUrl, rewritePlaylist } from "./hls.ts"
+import { formatVariant, selectVariant, type QualitySpec } from "./quality.ts"
+import { log } from "./log.ts"
+
+export interface ProxiedVideo {
+  label: string // Title shown by the player: "Show - S01E02 - Episode title"
+  episode: Episode // Sources in preference order
+}
+
+export interface StreamProxyOptions {
+  host: string
+  port: number // 0 picks a free port
+  quality?: QualitySpec // Pin one HLS variant; by default the player picks from the master playlist
+}
+
+interface Resolution {
+  sourceUrl: string // Embed it came from
+  url: string
+  headers: Record<string, string>
+  expiresAt: number
+}
+
+// Stream URLs expire; resolving again after a while is cheaper than failing mid-episode
+const RESOLUTION_TTL_MS = 5 * 60 * 1000
+const PASSTHROUGH_HEADERS = [
+  "content-type",
+  "content-length",
+  "content-range",
+  "accept-ranges",
+  "last-modified",
+  "etag",
+]
+
+export class StreamProxy {
+  private server?: Server<undefined>
+  private resolutions = new Map<number, Promise<Resolution>>()
+  // Hosts the proxy may fetch for each video; kept across resolutions because players never
+  // fetch a VOD playlist again, so its segment URLs stay in use for the whole episode
+  private hosts = new Map<number, Set<string>>()
+
+  constructor(
+    private readonly videos: ProxiedVideo[],
+    private readonly opts: StreamProxyOptions
+  ) {}
+
+  // Returns the base URL
+  start(): string {
+    this.server = Bun.serve({
+      hostname: this.opts.host,
+      port: this.opts.port,
+      idleTimeout: 0, // Paused players keep their connection open
+      routes: {
+        "/playlist.m3u": () => new Response(this.playlist(), { headers: { "content-type": "audio/x-mpegurl" } }),
+        "/v/:n": (req) => this.handle(req, this.videoIndex(req.params.n)),
+        "/v/:n/p": (req) => this.handle(req, this.videoIndex(req.params.n), new URL(req.url).searchParams.get("u")),
+      },
+      fetch: () => new Response("Not found", { status: 404 }),
+    })
+    return this.baseUrl()
+  }
+
+  stop(): void {
+    this.server?.stop(true)
+  }
+
+  baseUrl(): string {
+    if (!this.server) throw new Error("Stream proxy is not running")
+    return `http://${this.server.hostname}:${this.server.port}`
+  }
+
+  videoUrl(index: number): string {
+    return `${this.baseUrl()}/v/${index + 1}`
+  }
+
+  playlistUrl(): string {
+    return `${this.baseUrl()}/playlist.m3u`
+  }
+
+  // Every video with its proxy URL, in order
+  entries(): Array<{ label: string; url: string }> {
+    return this.videos.map((video, i) => ({ label: video.label, url: this.videoUrl(i) }))
+  }
+
+  // Extended M3U of every video
+  playlist(): string {
+    const lines = ["#EXTM3U", ...this.entries().flatMap(({ label, url }) => [`#EXTINF:-1,${label}`, url])]
+    return `${lines.join("\n")}\n`
+  }
+
+  private videoIndex(n: string): number | undefined {
+    const index = Number(n) - 1
+    return Number.isInteger(index) && this.videos[index] ? index : undefined
+  }
+
+  // First source that resolves wins; a master playlist is narrowed to one variant only with --quality
+  private async resolve(index: number): Promise<Resolution> {
+    const video = this.videos[index]!
+    const errors: string[] = []
+    for (const source of video.episode.sources) {
+      if (!findResolver(source.url)) {
+        errors.push(`${source.host}: no resolver`)
+        continue
+      }
+      try {
+        const stream = await resolveStream(source.url)
+        let url = stream.url
+        const { quality } = this.opts
+        const variant = quality && stream.variants.length > 0 ? selectVariant(stream.variants, quality) : undefined
+        if (variant) {
+          log.info(`${video.label}: variant ${formatVariant(variant)}`)
+          url = variant.url
+        }
+        log.info(`${video.label}: playing from ${source.host}`)
+        this.allowHost(index, url)
+        return { sourceUrl: source.url, url, headers: stream.headers, expiresAt: Date.now() + RESOLUTION_TTL_MS }
+      } catch (err) {
+        errors.push(`${source.host}: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+    throw new Error(`No playable source for ${video.label} (${errors.join("; ") || "no sources"})`)
+  }
+
+  private allowHost(index: number, url: string): void {
+    const hosts = this.hosts.get(index) ?? new Set<string>()
+    hosts.add(new URL(url).host)
+    this.hosts.set(index, hosts)
+  }
+
+  // Only a request for the video itself resolves it again once the TTL ran out; segment requests
+  // keep the headers of the resolution that produced their playlist
+  private async resolution(index: number, refresh: boolean): Promise<Resolution> {
+    let pending = this.resolutions.get(index)
+    if (pending) {
+      const cached = await pending.catch(() => undefined)
+      if (cached && (!refresh || cached.expiresAt > Date.now())) return cached
+    }
+    pending = this.resolve(index)
+    this.resolutions.set(index, pending)
+    return pending
+  }
+
+  // `target` is a URL from a rewritten playlist; without one the video's own stream is fetched
+  private async handle(req: Request, index: number | undefined, target?: string | null): Promise<Response> {
+    if (index === undefined) return new Response("Unknown video", { status: 404 })
+    if (target !== undefined) {
+      let host: string | undefined
+      try {
+        host = target ? new URL(target).host : undefined
+      } catch {}
+      if (!host) return new Response("Invalid URL", { status: 400 })
+      if (!this.hosts.get(index)?.has(host)) return new Response("URL not part of this stream", { status: 403 })
+    }
+
+    let resolution: Resolution
+    try {
+      resolution = await this.resolution(index, target === undefined)
+    } catch (err) {
+      this.resolutions.delete(index)
+      const message = err instanceof Error ? err.message : String(err)
+      log.error(message)
+      return new Response(message, { status: 502 })
+    }
+
+    const url = target ?? resolution.url
+
+    const headers = { ...resolution.headers }
+    const range = req.headers.get("range")
+    if (range) headers.range = range
+    let upstream: Response
+    try {
+      upstream = await fetchResponse(url, headers)
+    } catch (err) {
+      // An expired or revoked stream URL: resolve the embed again on the player's next request
+      if (!target) {
+        this.resolutions.delete(index)
+        await forgetResolution(resolution.sourceUrl)
+      }
+      const message = err instanceof Error ? err.message : String(err)
+      log.warn(message)
+      return new Response(message, { status: 502 })
+    }
+
+    const contentType = upstream.headers.get("content-type") ?? ""
+    if (isHlsUrl(url) || contentType.toLowerCase().includes("mpegurl")) {
+      const playlist = rewritePlaylist(await upstream.text(), upstream.url || url, (absolute) => {
+        this.allowHost(index, absolute)
+        return `${this.videoUrl(index)}/p?u=${encodeURIComponent(absolute)}`
+      })
+      return new Response(playlist, { headers: { "content-type": "application/vnd.apple.mpegurl" } })
+    }
+
+    const passthrough = new Headers()
+    for (const name of PASSTHROUGH_HEADERS) {
+      const value = upstream.headers.get(name)
+      if (value) passthrough.set(name, value)
+    }
+    return new Response(upstream.body, { status: upstream.status, headers: passthrough })
+  }
+}
@@ -0,0 +1,137 @@
+// Subtitle sidecars: language detection, VTT -> SRT conversion and muxing into the MP4
+
+import path from "node:path"
+import { rename } from "node:fs/promises"
+import type { SubtitleTrack } from "../resolvers/base.ts"
+import { fetchHtml } from "./http.ts"
+import { resolveFfmpegBinary } from "./binaries.ts"
+import { log, spawnLogged } from "./log.ts"
+
+// ISO 639-1 code -> ISO 639-2 code (what MP4 language tags use) and the names players label tracks with
+const LANGUAGES: Record<string, { iso3: string; names: string[] }> = {
+  fr: { iso3: "fre", names: ["french", "français", "francais", "fra", "fre", "vf", "vostfr"] },
+  en: { iso3: "eng", names: ["english", "anglais", "eng"] },
+  es: { iso3: "spa", names: ["spanish", "español", "espanol", "espagnol", "spa"] },
+  de: { iso3: "ger", names: ["german", "deutsch", "allemand", "ger", "deu"] },
+  it: { iso3: "ita", names: ["italian", "italiano", "italien", "ita"] },
+  pt: { iso3: "por", names: ["portuguese", "português", "portugais", "por"] },
+  ar: { iso3: "ara", names: ["arabic", "arabe", "ara"] },
+}
+
+function matchLanguage(token: string): string | undefined {
+  const t = token.toLowerCase()
+  if (LANGUAGES[t]) return t
+  return Object.keys(LANGUAGES).find((code) => LANGUAGES[code]!.names.includes(t))
+}
+
+// Guess the language from the player label ("Français", "English [CC]"), else from the
+// file name ("ep1_fr.vtt", "fre.srt")
+export function subtitleLanguage(label: string | undefined, url: string): string | undefined {
+  for (const word of (label ?? "").split(/[^\p{L}]+/u)) {
+    const code = word ? matchLanguage(word) : undefined
+    if (code) return code
+  }
+  let base = url
+  try {
+    base = path.basename(new URL(url).pathname)
+  } catch {}
+  for (const word of base.replace(/\.(vtt|srt)$/i, "").split(/[^a-z]+/i)) {
+    const code = word.length >= 2 && word.length <= 3 ? matchLanguage(word) : undefined
+    if (code) return code
+  }
+  return undefined
+}
+
+function srtTimestamp(vtt: string): string {
+  const parts = vtt.trim().replace(",", ".").split(":")
+  const [sec = "0", ms = "0"] = (parts.pop() ?? "0").split(".")
+  const min = parts.pop() ?? "0"
+  const hours = parts.pop() ?? "0"
+  return `${hours.padStart(2, "0")}:${min.padStart(2, "0")}:${sec.padStart(2, "0")},${ms.padEnd(3, "0").slice(0, 3)}`
+}
+
+// WebVTT -> SubRip: drop the header, NOTE/STYLE/REGION blocks, cue ids, cue settings and
+// non-SRT markup, then renumber the cues
+export function vttToSrt(vtt: string): string {
+  const blocks = vtt.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n{2,}/)
+  const cues: string[] = []
+  for (const block of blocks) {
+    const lines = block.split("\n").filter((l) => l.length > 0)
+    const timing = lines.findIndex((l) => l.includes("-->"))
+    if (timing < 0) continue
+    const [start = "", rest = ""] = lines[timing]!.split("-->")
+    const end = rest.trim().split(/\s+/)[0] ?? ""
+    const text = lines
+      .slice(timing + 1)
+      .map((l) => l.replace(/<(?!\/?[ibu]>)[^>]*>/g, ""))
+      .join("\n")
+    cues.push(`${cues.length + 1}\n${srtTimestamp(start)} --> ${srtTimestamp(end)}\n${text}`)
+  }
+  return cues.join("\n\n") + "\n"
+}
+
+function toSrt(content: string): string {
+  const text = content.replace(/^\uFEFF/, "")
+  return text.trimStart().startsWith("WEBVTT") ? vttToSrt(text) : text.replace(/\r\n?/g, "\n")
+}
+
+// "Show - S01E01.mp4" + "fr" -> "Show - S01E01.fr.srt"
+export function subtitlePath(videoPath: string, language: string): string {
+  const base = videoPath.slice(0, videoPath.length - path.extname(videoPath).length)
+  return `${base}.${language}.srt`
+}
+
+export interface SavedSubtitle {
+  path: string
+  language: string // ISO 639-1 code, or "und" when unknown
+}
+
+// Save every track as an SRT sidecar. One file per language: players key sidecars on
+// the language suffix, so later tracks with the same language are skipped.
+export async function saveSubtitles(
+  tracks: SubtitleTrack[],
+  videoPath: string,
+  headers?: Record<string, string>
+): Promise<SavedSubtitle[]> {
+  const saved: SavedSubtitle[] = []
+  for (const track of tracks) {
+    const language = track.language ?? "und"
+    if (saved.some((s) => s.language === language)) continue
+    try {
+      const content = await fetchHtml(track.url, { accept: "text/vtt,application/x-subrip,text/plain,*/*", ...headers })
+      const filePath = subtitlePath(videoPath, language)
+      await Bun.write(filePath, toSrt(content))
+      saved.push({ path: filePath, language })
+      log.info(`Saved ${track.label ?? language} subtitles: ${filePath}`)
+    } catch (err) {
+      log.warn(`Could not save subtitles from ${track.url}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  return saved
+}
+
+// Add the SRT files to the MP4 as mov_text streams; the sidecars are kept
+export async function muxSubtitles(videoPath: string, subtitles: SavedSubtitle[]): Promise<void> {
+  if (subtitles.length === 0) return
+  const ffmpeg = await resolveFfmpegBinary()
+  if (!ffmpeg) {
+    throw new Error("Cannot mux subtitles: ffmpeg is unavailable")
+  }
+
+  const tmpFile = `${videoPath}.subs.mp4`
+  const args = [ffmpeg, "-hide_banner", "-y", "-i", videoPath]
+  for (const sub of subtitles) args.push("-i", sub.path)
+  args.push("-map", "0:v?", "-map", "0:a?")
+  subtitles.forEach((_, i) => args.push("-map", `${i + 1}:0`))
+  args.push("-c", "copy", "-c:s", "mov_text")
+  subtitles.forEach((sub, i) => args.push(`-metadata:s:s:${i}`, `language=${LANGUAGES[sub.language]?.iso3 ?? "und"}`))
+  args.push("-movflags", "+faststart", tmpFile)
+
+  const code = await spawnLogged(args)
+  if (code !== 0) {
+    await Bun.file(tmpFile).delete().catch(() => {})
+    throw new Error(`ffmpeg subtitle mux exited with code ${code}`)
+  }
+  await rename(tmpFile, videoPath)
+  log.info(`Muxed ${subtitles.length} subtitle track(s) into ${videoPath}`)
+}
@@ -0,0 +1,110 @@
+// Integrity check of downloaded files with ffprobe: a playable video has a video and an audio
+// stream, a plausible duration and a container ffprobe can open. Truncated HLS downloads and
+// HTML error pages saved as .mp4 fail it; failing files go to a .quarantine folder.
+
+import path from "node:path"
+import { mkdir, rename } from "node:fs/promises"
+import { resolveFfprobeBinary } from "./binaries.ts"
+import { log } from "./log.ts"
+
+// Shorter files are trailers, ads or cut-off downloads
+export const MIN_DURATION_S = 60
+
+// Hidden, so media servers do not index it; one per folder keeps the move a rename
+export const QUARANTINE_DIR = ".quarantine"
+
+export interface MediaCheck {
+  ok: boolean
+  problems: string[] // Why the file failed, empty when ok
+  warnings: string[] // Errors ffprobe reported for a file it could read (a damaged frame, a missing PPS)
+  duration?: number // Seconds
+  streams: string[] // Codec types: "video", "audio", "subtitle", ...
+}
+
+interface ProbeOutput {
+  format?: { duration?: string }
+  streams?: Array<{ codec_type?: string }>
+}
+
+let ffprobe: Promise<string | null> | undefined
+let warnedMissing = false
+
+// The path to ffprobe, or null (with a one-time warning) when it is not installed
+export async function findFfprobe(): Promise<string | null> {
+  ffprobe ??= resolveFfprobeBinary()
+  const bin = await ffprobe
+  if (!bin && !warnedMissing) {
+    warnedMissing = true
+    log.warn("ffprobe not found: downloaded files are not verified (install ffmpeg, or set FFPROBE_BIN)")
+  }
+  return bin
+}
+
+// Probe one file; null when ffprobe is unavailable, so callers can skip verification
+export async function checkMedia(filePath: string): Promise<MediaCheck | null> {
+  const bin = await findFfprobe()
+  if (!bin) return null
+
+  const proc = Bun.spawn(
+    [bin, "-v", "error", "-show_entries", "format=duration:stream=codec_type", "-of", "json", filePath],
+    { stdio: ["ignore", "pipe", "pipe"] }
+  )
+  const [stdout, stderr, code] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ])
+
+  const problems: string[] = []
+  let probe: ProbeOutput = {}
+  try {
+    probe = JSON.parse(stdout || "{}") as ProbeOutput
+  } catch {
+    problems.push("unreadable ffprobe output")
+  }
+  // With -v error, stderr holds container and stream errors. Files that play fine report some too
+  // (h264 "non-existing PPS" in remuxed HLS), so they only fail the check when ffprobe gave up.
+  const errors = stderr
+    .split("\n")
+    .map((l) => l.replace(`${filePath}: `, "").trim())
+    .filter(Boolean)
+  let warnings: string[] = []
+  if (code !== 0) {
+    problems.push(errors.length > 0 ? errors.slice(0, 3).join("; ") : `ffprobe exited with code ${code}`)
+  } else {
+    warnings = errors.slice(0, 3)
+  }
+
+  const streams = (probe.streams ?? []).map((s) => s.codec_type ?? "unknown")
+  if (!streams.includes("video")) problems.push("no video stream")
+  if (!streams.includes("audio")) problems.push("no audio stream")
+  const parsed = Number(probe.format?.duration)
+  const duration = Number.isFinite(parsed) ? parsed : undefined
+  if (duration === undefined) problems.push("unknown duration")
+  else if (duration < MIN_DURATION_S) problems.push(`too short (${Math.round(duration)}s)`)
+
+  return { ok: problems.length === 0, problems, warnings, duration, streams }
+}
+
+// Move a file to the .quarantine folder next to `finalPath` (replacing an older copy) and return its
+// new path; `finalPath` differs from `filePath` for a file still in the staging folder
+export async function quarantineFile(filePath: string, finalPath = filePath): Promise<string> {
+  const dest = path.join(path.dirname(finalPath), QUARANTINE_DIR, path.basename(finalPath))
+  await mkdir(path.dirname(dest), { recursive: true })
+  await rename(filePath, dest)
+  return dest
+}
+
+// Check a file and quarantine it when it fails. Returns the problems, or null when the file
+// passed or could not be checked (no ffprobe).
+export async function verifyOrQuarantine(filePath: string, finalPath = filePath): Promise<string[] | null> {
+  const check = await checkMedia(filePath)
+  if (!check) return null
+  if (check.ok) {
+    if (check.warnings.length > 0) log.warn(`${filePath}: ffprobe reported ${check.warnings.join("; ")}`)
+    return null
+  }
+  const dest = await quarantineFile(filePath, finalPath)
+  log.warn(`${filePath} failed verification (${check.problems.join(", ")}); moved to ${dest}`)
+  return check.problems
+}
@@ -0,0 +1,41 @@
+// Followed series, stored in the user config directory
+
+import path from "node:path"
+import { rename } from "node:fs/promises"
+import { configDir } from "./paths.ts"
+import type { NamingTemplate } from "./naming.ts"
+
+export interface WatchEntry {
+  provider: string
+  titleId: string | number
+  name: string
+  season?: number // Only follow this season when set
+  languages?: string[] // Language preference (see utils/language.ts)
+  multiLang?: boolean
+  outDir: string
+  template?: NamingTemplate // Resolved when added so later preset changes don't move files
+  addedAt: string
+  lastCheckedAt?: string
+  lastQueued?: number
+}
+
+function watchlistPath(): string {
+  return path.join(configDir(), "watchlist.json")
+}
+
+export function watchKey(entry: { provider: string; titleId: string | number }): string {
+  return `${entry.provider}:${entry.titleId}`
+}
+
+export async function loadWatchlist(): Promise<WatchEntry[]> {
+  const file = Bun.file(watchlistPath())
+  if (!(await file.exists())) return []
+  return ((await file.json()) as { entries?: WatchEntry[] }).entries ?? []
+}
+
+export async function saveWatchlist(entries: WatchEntry[]): Promise<void> {
+  const filePath = watchlistPath()
+  const tmp = `${filePath}.tmp`
+  await Bun.write(tmp, JSON.stringify({ entries }, null, 2))
+  await rename(tmp, filePath)
+}